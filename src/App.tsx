@@ -8,10 +8,13 @@ import { AuthProvider } from "./contexts/AuthContext";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
+import ResetPassword from "./pages/ResetPassword";
 import UserDashboard from "./pages/UserDashboard";
 import AdminDashboard from "./pages/AdminDashboard";
 import BookSlot from "./pages/BookSlot";
 import BookingHistory from "./pages/BookingHistory";
+import CheckIn from "./pages/CheckIn";
+import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -26,6 +29,7 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/login" element={<Login />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
             <Route
               path="/dashboard"
               element={
@@ -42,6 +46,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/check-in"
+              element={
+                <ProtectedRoute adminOnly>
+                  <CheckIn />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/book-slot"
               element={
@@ -58,6 +70,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/profile"
+              element={
+                <ProtectedRoute>
+                  <Profile />
+                </ProtectedRoute>
+              }
+            />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,361 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClosuresDialog } from '@/components/ClosuresDialog';
+import { WalkInBookingDialog, WalkInSlot } from '@/components/WalkInBookingDialog';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { addDays, addWeeks, format, startOfWeek } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { Closure, closureCoversSlot } from '@/lib/closures';
+import { formatTimeSlot, generateTimeSlots, GameSchedule, toMinutes } from '@/lib/schedule';
+
+interface CalendarGame extends GameSchedule {
+  id: string;
+  name: string;
+  game_resources: { id: string; name: string; is_active: boolean }[];
+}
+
+interface CalendarBooking {
+  id: string;
+  game_id: string;
+  resource_id: string;
+  booking_date: string;
+  time_slot: string;
+  status: 'pending' | 'confirmed' | 'canceled' | 'no-show' | 'expired';
+  profiles: { name: string };
+  game_resources: { name: string };
+}
+
+interface AdminBookingCalendarProps {
+  onBookingCreated: () => void;
+}
+
+type CalendarView = 'day' | 'week';
+
+const ALL_GAMES = 'all';
+
+const sortTimes = (times: Iterable<string>) =>
+  Array.from(new Set(times)).sort((a, b) => toMinutes(a) - toMinutes(b));
+
+// Front-desk grid: courts (day) or days (week) across, time slots down
+export const AdminBookingCalendar: React.FC<AdminBookingCalendarProps> = ({ onBookingCreated }) => {
+  const [games, setGames] = useState<CalendarGame[]>([]);
+  const [bookings, setBookings] = useState<CalendarBooking[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [view, setView] = useState<CalendarView>('day');
+  const [date, setDate] = useState(new Date());
+  const [gameFilter, setGameFilter] = useState(ALL_GAMES);
+  const [walkInSlot, setWalkInSlot] = useState<WalkInSlot | null>(null);
+
+  const days = view === 'day'
+    ? [date]
+    : Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(date, { weekStartsOn: 1 }), i));
+
+  useEffect(() => {
+    fetchGames();
+  }, []);
+
+  useEffect(() => {
+    fetchBookings();
+    fetchClosures();
+  }, [view, date]);
+
+  const fetchGames = async () => {
+    const { data, error } = await supabase
+      .from('games')
+      .select(`
+        id,
+        name,
+        slot_duration_minutes,
+        buffer_minutes,
+        game_operating_hours (weekday, opens_at, closes_at),
+        game_resources (id, name, is_active)
+      `)
+      .eq('is_active', true)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching games:', error);
+      return;
+    }
+
+    setGames(data || []);
+  };
+
+  const fetchBookings = async () => {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        id,
+        game_id,
+        resource_id,
+        booking_date,
+        time_slot,
+        status,
+        profiles!bookings_user_id_fkey (name),
+        game_resources (name)
+      `)
+      .gte('booking_date', format(days[0], 'yyyy-MM-dd'))
+      .lte('booking_date', format(days[days.length - 1], 'yyyy-MM-dd'))
+      .in('status', ['pending', 'confirmed', 'no-show']);
+
+    if (error) {
+      console.error('Error fetching calendar bookings:', error);
+      return;
+    }
+
+    setBookings(data || []);
+  };
+
+  const fetchClosures = async () => {
+    const { data, error } = await supabase
+      .from('game_closures')
+      .select('id, game_id, resource_id, start_date, end_date, start_time, end_time, reason')
+      .lte('start_date', format(days[days.length - 1], 'yyyy-MM-dd'))
+      .gte('end_date', format(days[0], 'yyyy-MM-dd'));
+
+    if (error) {
+      console.error('Error fetching closures:', error);
+      return;
+    }
+
+    setClosures(data || []);
+  };
+
+  const changeView = (next: CalendarView) => {
+    setView(next);
+    if (next === 'week' && gameFilter === ALL_GAMES && games.length > 0) {
+      setGameFilter(games[0].id);
+    }
+  };
+
+  const move = (direction: number) => {
+    setDate(view === 'day' ? addDays(date, direction) : addWeeks(date, direction));
+  };
+
+  const handleBookingCreated = () => {
+    fetchBookings();
+    onBookingCreated();
+  };
+
+  const handleClosuresChanged = () => {
+    fetchClosures();
+    handleBookingCreated();
+  };
+
+  const closureAt = (game: CalendarGame, resourceId: string, day: Date, time: string) =>
+    closures.find(c =>
+      closureCoversSlot(c, game.id, resourceId, format(day, 'yyyy-MM-dd'), time, game.slot_duration_minutes)
+    );
+
+  const bookingsAt = (day: Date, time: string) => {
+    const bookingDate = format(day, 'yyyy-MM-dd');
+    return bookings.filter(b => b.booking_date === bookingDate && formatTimeSlot(b.time_slot) === time);
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'confirmed': return 'bg-green-100 text-green-800 border-green-200';
+      case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'no-show': return 'bg-gray-100 text-gray-800 border-gray-200';
+      default: return 'bg-gray-100 text-gray-800 border-gray-200';
+    }
+  };
+
+  const isPast = (day: Date, time: string) => new Date(`${format(day, 'yyyy-MM-dd')}T${time}`) < new Date();
+
+  const renderBooking = (booking: CalendarBooking, showCourt: boolean) => (
+    <div key={booking.id} className={cn("rounded border px-2 py-1 text-xs", getStatusColor(booking.status))}>
+      <p className="font-medium truncate">{booking.profiles.name}</p>
+      {showCourt && <p className="truncate">{booking.game_resources.name}</p>}
+    </div>
+  );
+
+  const renderClosed = (closure: Closure) => (
+    <p className="px-2 py-1 text-xs text-gray-400 truncate" title={closure.reason}>Closed</p>
+  );
+
+  const renderEmptyCell = (slot: WalkInSlot | null) =>
+    slot && !isPast(slot.date, slot.time) ? (
+      <button
+        type="button"
+        className="w-full h-full min-h-[2rem] rounded text-xs text-gray-400 hover:bg-blue-50 hover:text-blue-600"
+        onClick={() => setWalkInSlot(slot)}
+      >
+        + Walk-in
+      </button>
+    ) : null;
+
+  const renderDayGrid = () => {
+    const dayGames = games.filter(g => gameFilter === ALL_GAMES || g.id === gameFilter);
+    const slotsByGame = new Map(dayGames.map(g => [g.id, generateTimeSlots(g, date)]));
+    const columns = dayGames.flatMap(game =>
+      game.game_resources.filter(r => r.is_active).map(resource => ({ game, resource }))
+    );
+    const times = sortTimes(Array.from(slotsByGame.values()).flat());
+
+    if (times.length === 0) {
+      return <p className="text-sm text-gray-500">Nothing is open on this day</p>;
+    }
+
+    return (
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr>
+            <th className="w-16" />
+            {columns.map(({ game, resource }) => (
+              <th key={resource.id} className="px-1 pb-2 text-left font-medium">
+                <p>{resource.name}</p>
+                {gameFilter === ALL_GAMES && <p className="text-xs text-gray-500">{game.name}</p>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {times.map((time) => {
+            const slotBookings = bookingsAt(date, time);
+            return (
+              <tr key={time} className="border-t">
+                <td className="py-1 pr-2 text-xs text-gray-500 align-top">{time}</td>
+                {columns.map(({ game, resource }) => {
+                  // A court rebooked after a no-show holds both rows; show the live one
+                  const courtBookings = slotBookings.filter(b => b.resource_id === resource.id);
+                  const booking = courtBookings.find(b => b.status !== 'no-show') ?? courtBookings[0];
+                  const isSlot = slotsByGame.get(game.id)?.includes(time);
+                  const closure = isSlot ? closureAt(game, resource.id, date, time) : undefined;
+                  return (
+                    <td key={resource.id} className={cn("p-1 align-top", (!isSlot || closure) && "bg-gray-50")}>
+                      {booking
+                        ? renderBooking(booking, false)
+                        : closure
+                          ? renderClosed(closure)
+                          : renderEmptyCell(isSlot ? {
+                            gameId: game.id,
+                            gameName: game.name,
+                            resourceId: resource.id,
+                            resourceName: resource.name,
+                            date,
+                            time,
+                          } : null)}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    );
+  };
+
+  const renderWeekGrid = () => {
+    const game = games.find(g => g.id === gameFilter);
+    if (!game) return null;
+
+    const slotsByDay = days.map(day => generateTimeSlots(game, day));
+    const times = sortTimes(slotsByDay.flat());
+    const courts = game.game_resources.filter(r => r.is_active);
+
+    if (times.length === 0) {
+      return <p className="text-sm text-gray-500">{game.name} is closed all week</p>;
+    }
+
+    return (
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr>
+            <th className="w-16" />
+            {days.map((day) => (
+              <th key={day.toISOString()} className="px-1 pb-2 text-left font-medium">
+                {format(day, 'EEE d')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {times.map((time) => (
+            <tr key={time} className="border-t">
+              <td className="py-1 pr-2 text-xs text-gray-500 align-top">{time}</td>
+              {days.map((day, i) => {
+                const slotBookings = bookingsAt(day, time).filter(b => b.game_id === game.id);
+                const isSlot = slotsByDay[i].includes(time);
+                const courtClosures = isSlot ? courts.map(r => closureAt(game, r.id, day, time)) : [];
+                const openCourtIds = courts.filter((_, j) => !courtClosures[j]).map(r => r.id);
+                const openCount = openCourtIds.length;
+                // Bookings left on a closed court don't take up an open one
+                const liveCount = slotBookings.filter(b => b.status !== 'no-show' && openCourtIds.includes(b.resource_id)).length;
+                return (
+                  <td key={day.toISOString()} className={cn("p-1 align-top space-y-1", (!isSlot || (courts.length > 0 && openCount === 0)) && "bg-gray-50")}>
+                    {slotBookings.map(booking => renderBooking(booking, courts.length > 1))}
+                    {isSlot && openCount === 0 && courtClosures[0] && renderClosed(courtClosures[0])}
+                    {isSlot && liveCount < openCount && renderEmptyCell({
+                      gameId: game.id,
+                      gameName: game.name,
+                      date: day,
+                      time,
+                    })}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0 pb-4">
+        <div>
+          <CardTitle>Booking Calendar</CardTitle>
+          <CardDescription>
+            {view === 'day'
+              ? format(date, 'EEEE, PPP')
+              : `${format(days[0], 'd MMM')} – ${format(days[6], 'd MMM yyyy')}`}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <ClosuresDialog games={games} onChanged={handleClosuresChanged} />
+          <Select value={view} onValueChange={(value) => changeView(value as CalendarView)}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Day</SelectItem>
+              <SelectItem value="week">Week</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={gameFilter} onValueChange={setGameFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Game" />
+            </SelectTrigger>
+            <SelectContent>
+              {view === 'day' && <SelectItem value={ALL_GAMES}>All Games</SelectItem>}
+              {games.map((game) => (
+                <SelectItem key={game.id} value={game.id}>{game.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => move(-1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setDate(new Date())}>Today</Button>
+          <Button size="sm" variant="outline" onClick={() => move(1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {view === 'day' ? renderDayGrid() : renderWeekGrid()}
+      </CardContent>
+      <WalkInBookingDialog
+        slot={walkInSlot}
+        onClose={() => setWalkInSlot(null)}
+        onCreated={handleBookingCreated}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+
+interface AutoApprovalRulesDialogProps {
+  game: {
+    id: string;
+    name: string;
+  };
+}
+
+interface AutoApprovalRule {
+  id: string;
+  name: string;
+  requires_good_standing: boolean;
+  off_peak_only: boolean;
+  max_price: number | null;
+  is_active: boolean;
+}
+
+const emptyRule = {
+  name: '',
+  requires_good_standing: true,
+  off_peak_only: false,
+  max_price: '',
+};
+
+const describeRule = (rule: AutoApprovalRule) => [
+  rule.requires_good_standing && 'member in good standing',
+  rule.off_peak_only && 'off-peak',
+  rule.max_price !== null && `up to ₹${rule.max_price}`,
+].filter(Boolean).join(', ');
+
+export const AutoApprovalRulesDialog: React.FC<AutoApprovalRulesDialogProps> = ({ game }) => {
+  const [rules, setRules] = useState<AutoApprovalRule[]>([]);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from('auto_approval_rules')
+      .select('id, name, requires_good_standing, off_peak_only, max_price, is_active')
+      .eq('game_id', game.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching auto-approval rules:', error);
+      return;
+    }
+
+    setRules(data || []);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setNewRule(emptyRule);
+      fetchRules();
+    }
+  };
+
+  const addRule = async () => {
+    const maxPrice = newRule.max_price.trim() ? parseFloat(newRule.max_price) : null;
+
+    if (!newRule.name.trim()
+      || (maxPrice !== null && (isNaN(maxPrice) || maxPrice < 0))
+      || (!newRule.requires_good_standing && !newRule.off_peak_only && maxPrice === null)
+    ) {
+      toast({
+        title: "Invalid rule",
+        description: "A rule needs a name and at least one condition",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const { error } = await supabase
+        .from('auto_approval_rules')
+        .insert([{
+          game_id: game.id,
+          name: newRule.name.trim(),
+          requires_good_standing: newRule.requires_good_standing,
+          off_peak_only: newRule.off_peak_only,
+          max_price: maxPrice,
+        }]);
+
+      if (error) {
+        console.error('Error adding auto-approval rule:', error);
+        toast({
+          title: "Failed to add rule",
+          description: "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setNewRule(emptyRule);
+      await fetchRules();
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const toggleRule = async (rule: AutoApprovalRule) => {
+    const { error } = await supabase
+      .from('auto_approval_rules')
+      .update({ is_active: !rule.is_active })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error toggling auto-approval rule:', error);
+      return;
+    }
+
+    await fetchRules();
+  };
+
+  const deleteRule = async (rule: AutoApprovalRule) => {
+    const { error } = await supabase
+      .from('auto_approval_rules')
+      .delete()
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error deleting auto-approval rule:', error);
+      return;
+    }
+
+    await fetchRules();
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Approval</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{game.name} Auto-approval</DialogTitle>
+          <DialogDescription>
+            Bookings matching every condition of a rule are confirmed immediately; the rest wait for an admin
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {rules.length === 0 && (
+              <p className="text-sm text-gray-500">No rules; every booking needs manual approval</p>
+            )}
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-3 border rounded">
+                <div>
+                  <p className="font-medium">{rule.name}</p>
+                  <p className="text-xs text-gray-500">{describeRule(rule)}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant={rule.is_active ? "default" : "secondary"}>
+                    {rule.is_active ? 'Active' : 'Inactive'}
+                  </Badge>
+                  <Button size="sm" variant="outline" onClick={() => toggleRule(rule)}>
+                    {rule.is_active ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => deleteRule(rule)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3 p-4 border rounded-lg">
+            <h4 className="font-medium">Add Rule</h4>
+            <div>
+              <Label htmlFor="approval-rule-name">Name</Label>
+              <Input
+                id="approval-rule-name"
+                placeholder="e.g. Regulars off-peak"
+                value={newRule.name}
+                onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center space-x-3">
+              <Switch
+                checked={newRule.requires_good_standing}
+                onCheckedChange={(checked) => setNewRule({ ...newRule, requires_good_standing: checked })}
+              />
+              <span className="text-sm">Member in good standing</span>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Switch
+                checked={newRule.off_peak_only}
+                onCheckedChange={(checked) => setNewRule({ ...newRule, off_peak_only: checked })}
+              />
+              <span className="text-sm">Off-peak only (outside peak pricing hours)</span>
+            </div>
+            <div>
+              <Label htmlFor="approval-rule-max-price">Price up to (₹)</Label>
+              <Input
+                id="approval-rule-max-price"
+                type="number"
+                min={0}
+                placeholder="Any price"
+                value={newRule.max_price}
+                onChange={(e) => setNewRule({ ...newRule, max_price: e.target.value })}
+              />
+            </div>
+            <Button onClick={addRule} disabled={isAdding} className="w-full">
+              {isAdding ? 'Adding...' : 'Add Rule'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { BookingTimeline, BookingTimelineEvent } from '@/components/BookingTimeline';
+import { formatTimeSlot } from '@/lib/schedule';
+
+interface BookingDetailDrawerProps {
+  booking: {
+    id: string;
+    booking_date: string;
+    time_slot: string;
+    notes?: string;
+    profiles: { name: string; email: string };
+    games: { name: string };
+    game_resources: { name: string };
+  };
+}
+
+// Full audit trail of a booking, with the name of whoever made each change
+export const BookingDetailDrawer: React.FC<BookingDetailDrawerProps> = ({ booking }) => {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<BookingTimelineEvent[]>([]);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchEvents = async () => {
+    const { data, error } = await supabase
+      .from('booking_events')
+      .select(`
+        created_at,
+        old_status,
+        new_status,
+        old_cost,
+        new_cost,
+        note,
+        profiles (name)
+      `)
+      .eq('booking_id', booking.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching booking events:', error);
+      return;
+    }
+
+    setEvents(data?.map(({ profiles, ...event }) => ({ ...event, actor: profiles?.name ?? 'System' })) || []);
+  };
+
+  const addNote = async () => {
+    if (!user || !note.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('booking_events')
+        .insert([{ booking_id: booking.id, actor_id: user.id, note: note.trim() }]);
+
+      if (error) {
+        console.error('Error adding note:', error);
+        toast({
+          title: "Failed to add note",
+          description: "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setNote('');
+      await fetchEvents();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet onOpenChange={(open) => open && fetchEvents()}>
+      <SheetTrigger asChild>
+        <Button size="sm" variant="ghost">Details</Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{booking.games.name} · {booking.game_resources.name}</SheetTitle>
+          <SheetDescription>
+            {format(new Date(booking.booking_date), 'PPP')} at {formatTimeSlot(booking.time_slot)} for {booking.profiles.name} ({booking.profiles.email})
+          </SheetDescription>
+        </SheetHeader>
+        <div className="space-y-6 mt-6">
+          {booking.notes && (
+            <div>
+              <h4 className="text-sm font-medium mb-1">Member notes</h4>
+              <p className="text-sm text-gray-600">{booking.notes}</p>
+            </div>
+          )}
+          <div>
+            <h4 className="text-sm font-medium mb-3">History</h4>
+            <BookingTimeline events={events} />
+          </div>
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Add a note, e.g. member called to dispute the no-show"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button size="sm" onClick={addNote} disabled={!note.trim() || isSaving}>
+              {isSaving ? 'Saving...' : 'Add Note'}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+
+interface BookingQuotasDialogProps {
+  game: {
+    id: string;
+    name: string;
+  };
+}
+
+type Role = 'user' | 'admin';
+
+interface QuotaForm {
+  max_active_bookings: string;
+  max_hours_per_week: string;
+  max_bookings_per_day: string;
+}
+
+const ROLES: { role: Role; label: string }[] = [
+  { role: 'user', label: 'Members' },
+  { role: 'admin', label: 'Admins' },
+];
+
+const QUOTA_FIELDS: { key: keyof QuotaForm; label: string }[] = [
+  { key: 'max_active_bookings', label: 'Upcoming bookings' },
+  { key: 'max_hours_per_week', label: 'Hours per week' },
+  { key: 'max_bookings_per_day', label: 'Bookings per day' },
+];
+
+const emptyQuota: QuotaForm = { max_active_bookings: '', max_hours_per_week: '', max_bookings_per_day: '' };
+
+// Empty fields mean no limit
+const parseLimit = (value: string) => (value.trim() ? parseInt(value, 10) : null);
+
+export const BookingQuotasDialog: React.FC<BookingQuotasDialogProps> = ({ game }) => {
+  const [open, setOpen] = useState(false);
+  const [quotas, setQuotas] = useState<Record<Role, QuotaForm>>({ user: emptyQuota, admin: emptyQuota });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchQuotas = async () => {
+    const { data, error } = await supabase
+      .from('booking_quotas')
+      .select('role, max_active_bookings, max_hours_per_week, max_bookings_per_day')
+      .eq('game_id', game.id);
+
+    if (error) {
+      console.error('Error fetching booking limits:', error);
+      return;
+    }
+
+    const next = { user: emptyQuota, admin: emptyQuota };
+    data?.forEach(quota => {
+      next[quota.role] = {
+        max_active_bookings: quota.max_active_bookings?.toString() ?? '',
+        max_hours_per_week: quota.max_hours_per_week?.toString() ?? '',
+        max_bookings_per_day: quota.max_bookings_per_day?.toString() ?? '',
+      };
+    });
+    setQuotas(next);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      fetchQuotas();
+    }
+  };
+
+  const updateQuota = (role: Role, key: keyof QuotaForm, value: string) => {
+    setQuotas({ ...quotas, [role]: { ...quotas[role], [key]: value } });
+  };
+
+  const saveQuotas = async () => {
+    const rows = ROLES.map(({ role }) => ({
+      game_id: game.id,
+      role,
+      max_active_bookings: parseLimit(quotas[role].max_active_bookings),
+      max_hours_per_week: parseLimit(quotas[role].max_hours_per_week),
+      max_bookings_per_day: parseLimit(quotas[role].max_bookings_per_day),
+    }));
+
+    const invalid = rows.some(row =>
+      [row.max_active_bookings, row.max_hours_per_week, row.max_bookings_per_day]
+        .some(limit => limit !== null && (isNaN(limit) || limit <= 0))
+    );
+    if (invalid) {
+      toast({
+        title: "Invalid limits",
+        description: "Limits must be positive whole numbers, or empty for no limit",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('booking_quotas')
+        .upsert(rows, { onConflict: 'game_id,role' });
+
+      if (error) {
+        console.error('Error saving booking limits:', error);
+        toast({
+          title: "Failed to save limits",
+          description: "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Limits saved",
+        description: `New bookings for ${game.name} will be checked against these limits`,
+      });
+      setOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Limits</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{game.name} Booking Limits</DialogTitle>
+          <DialogDescription>
+            Fair-use limits per person. Leave a field empty for no limit.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {ROLES.map(({ role, label }) => (
+            <div key={role} className="space-y-2">
+              <h4 className="font-medium">{label}</h4>
+              <div className="grid grid-cols-3 gap-3">
+                {QUOTA_FIELDS.map(({ key, label: fieldLabel }) => (
+                  <div key={key}>
+                    <Label htmlFor={`${role}-${key}`} className="text-xs">{fieldLabel}</Label>
+                    <Input
+                      id={`${role}-${key}`}
+                      type="number"
+                      min={1}
+                      placeholder="No limit"
+                      value={quotas[role][key]}
+                      onChange={(e) => updateQuota(role, key, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <Button onClick={saveQuotas} disabled={isSaving} className="w-full">
+            {isSaving ? 'Saving...' : 'Save Limits'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
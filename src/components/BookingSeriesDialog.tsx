@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+import { formatTimeSlot, generateTimeSlots, GameSchedule } from '@/lib/schedule';
+
+interface BookingSeriesDialogProps {
+  seriesId: string;
+  gameId: string;
+  gameName: string;
+  bookingDate: string;
+  timeSlot: string;
+  onChanged: () => void;
+}
+
+interface SeriesResult {
+  booking_id: string;
+  error_code: string | null;
+}
+
+// Cancels or moves every upcoming occurrence of a weekly series at once
+export const BookingSeriesDialog: React.FC<BookingSeriesDialogProps> = ({
+  seriesId,
+  gameId,
+  gameName,
+  bookingDate,
+  timeSlot,
+  onChanged,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [timeSlots, setTimeSlots] = useState<string[]>([]);
+  const [newTime, setNewTime] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const fetchTimeSlots = async () => {
+    const { data, error } = await supabase
+      .from('games')
+      .select(`
+        slot_duration_minutes,
+        buffer_minutes,
+        game_operating_hours (weekday, opens_at, closes_at)
+      `)
+      .eq('id', gameId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching schedule:', error);
+      return;
+    }
+
+    const schedule: GameSchedule = data;
+    setTimeSlots(generateTimeSlots(schedule, new Date(`${bookingDate}T00:00`)));
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setNewTime('');
+      fetchTimeSlots();
+    }
+  };
+
+  const reportResults = (action: string, results: SeriesResult[]) => {
+    const failed = results.filter(result => result.error_code);
+    if (failed.length === 0) {
+      toast({
+        title: `Series ${action}`,
+        description: `${results.length} upcoming ${results.length === 1 ? 'booking' : 'bookings'} updated`,
+      });
+    } else {
+      toast({
+        title: `Series partly ${action}`,
+        description: `${failed.length} of ${results.length} could not be changed: ${getBookingErrorMessage(failed[0].error_code)}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const cancelSeries = async () => {
+    setIsWorking(true);
+    try {
+      const { data, error } = await supabase.rpc('cancel_booking_series', { p_series_id: seriesId });
+
+      if (error) {
+        console.error('Error canceling series:', error);
+        toast({ title: "Cancellation failed", description: "Please try again", variant: "destructive" });
+        return;
+      }
+
+      reportResults('canceled', data || []);
+      setOpen(false);
+      onChanged();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const moveSeries = async () => {
+    if (!newTime) return;
+
+    setIsWorking(true);
+    try {
+      const { data, error } = await supabase.rpc('reschedule_booking_series', {
+        p_series_id: seriesId,
+        p_time_slot: newTime,
+      });
+
+      if (error) {
+        console.error('Error moving series:', error);
+        toast({ title: "Reschedule failed", description: "Please try again", variant: "destructive" });
+        return;
+      }
+
+      reportResults('moved', data || []);
+      setOpen(false);
+      onChanged();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Repeat className="w-4 h-4 mr-1" />
+          Series
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Weekly {gameName}</DialogTitle>
+          <DialogDescription>
+            Every {format(new Date(`${bookingDate}T00:00`), 'EEEE')} at {formatTimeSlot(timeSlot)}.
+            Changes apply to all upcoming occurrences; past ones are kept.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Move to another time</Label>
+            <div className="flex space-x-2">
+              <Select value={newTime} onValueChange={setNewTime}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select time" />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeSlots
+                    .filter(time => time !== formatTimeSlot(timeSlot))
+                    .map((time) => (
+                      <SelectItem key={time} value={time}>{time}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={moveSeries} disabled={!newTime || isWorking}>
+                Move
+              </Button>
+            </div>
+          </div>
+          <div className="border-t pt-4">
+            <Button variant="destructive" className="w-full" onClick={cancelSeries} disabled={isWorking}>
+              {isWorking ? 'Working...' : 'Cancel All Upcoming'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
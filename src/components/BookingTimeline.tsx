@@ -0,0 +1,55 @@
+import { format } from 'date-fns';
+
+type BookingStatus = 'pending' | 'confirmed' | 'canceled' | 'no-show' | 'expired';
+
+export interface BookingTimelineEvent {
+  created_at: string;
+  old_status: BookingStatus | null;
+  new_status: BookingStatus | null;
+  old_cost: number | null;
+  new_cost: number | null;
+  note?: string | null;
+  actor?: string;
+}
+
+const statusLabel = (status: BookingStatus) => status.charAt(0).toUpperCase() + status.slice(1);
+
+const describeEvent = (event: BookingTimelineEvent) => {
+  if (!event.old_status && !event.new_status) {
+    return 'Note';
+  }
+  if (!event.old_status && event.new_status) {
+    return `Booked as ${statusLabel(event.new_status)}`;
+  }
+
+  const changes: string[] = [];
+  if (event.old_status && event.new_status && event.old_status !== event.new_status) {
+    changes.push(`${statusLabel(event.old_status)} → ${statusLabel(event.new_status)}`);
+  }
+  if (event.old_cost !== event.new_cost) {
+    changes.push(`₹${event.old_cost ?? 0} → ₹${event.new_cost ?? 0}`);
+  }
+  return changes.length > 0 ? changes.join(', ') : 'Updated';
+};
+
+export const BookingTimeline: React.FC<{ events: BookingTimelineEvent[] }> = ({ events }) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No history recorded yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {events.map((event, index) => (
+        <li key={`${event.created_at}-${index}`} className="ml-4">
+          <div className="absolute w-2 h-2 bg-blue-600 rounded-full -left-1 mt-2" />
+          <p className="text-sm font-medium">{describeEvent(event)}</p>
+          {event.note && <p className="text-sm text-gray-600">{event.note}</p>}
+          <p className="text-xs text-gray-400">
+            {format(new Date(event.created_at), 'PPP p')}
+            {event.actor && ` · ${event.actor}`}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { BookingTimeline, BookingTimelineEvent } from '@/components/BookingTimeline';
+
+interface BookingTimelineDialogProps {
+  bookingId: string;
+  gameName: string;
+}
+
+// The member's view of a booking's history: status and price changes only
+export const BookingTimelineDialog: React.FC<BookingTimelineDialogProps> = ({ bookingId, gameName }) => {
+  const [events, setEvents] = useState<BookingTimelineEvent[]>([]);
+
+  const fetchEvents = async () => {
+    const { data, error } = await supabase.rpc('my_booking_events', { p_booking_id: bookingId });
+
+    if (error) {
+      console.error('Error fetching booking history:', error);
+      return;
+    }
+
+    setEvents(data?.map(({ by_member, ...event }) => ({ ...event, actor: by_member ? 'You' : 'Club' })) || []);
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && fetchEvents()}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost">History</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{gameName} Booking History</DialogTitle>
+          <DialogDescription>Every change to this booking's status and price</DialogDescription>
+        </DialogHeader>
+        <BookingTimeline events={events} />
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+
+type BulkAction = 'confirm' | 'cancel' | 'no-show' | 'set-price';
+
+const ACTION_RESULTS: Record<BulkAction, string> = {
+  confirm: 'confirmed',
+  cancel: 'canceled',
+  'no-show': 'marked as no-show',
+  'set-price': 'repriced',
+};
+
+interface BulkBookingActionsProps {
+  bookingIds: string[];
+  onApplied: (failedIds: string[]) => void;
+}
+
+// Toolbar for the bookings selected in the admin table. The server checks each
+// booking separately, so the ones that couldn't change stay selected.
+export const BulkBookingActions: React.FC<BulkBookingActionsProps> = ({ bookingIds, onApplied }) => {
+  const [isApplying, setIsApplying] = useState(false);
+  const [priceOpen, setPriceOpen] = useState(false);
+  const [cost, setCost] = useState('');
+  const [reason, setReason] = useState('');
+
+  const parsedCost = parseFloat(cost);
+  const count = bookingIds.length;
+  const label = `${count} booking${count === 1 ? '' : 's'}`;
+
+  const applyAction = async (action: BulkAction) => {
+    setIsApplying(true);
+    try {
+      const { data, error } = await supabase.rpc('bulk_update_bookings', {
+        p_booking_ids: bookingIds,
+        p_action: action,
+        p_cost: action === 'set-price' ? parsedCost : undefined,
+        p_override_reason: action === 'set-price' && reason.trim() ? reason.trim() : undefined,
+      });
+
+      if (error) {
+        console.error('Error updating bookings:', error);
+        toast({
+          title: "Update failed",
+          description: "Failed to update the selected bookings",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      const results = data || [];
+      if (results.length === 1 && !results[0].booking_id) {
+        toast({
+          title: "Update failed",
+          description: getBookingErrorMessage(results[0].error_code),
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      const failed = results.filter(result => result.error_code);
+      const updated = results.length - failed.length;
+      if (failed.length === 0) {
+        toast({
+          title: "Bookings updated",
+          description: `${updated} booking${updated === 1 ? '' : 's'} ${ACTION_RESULTS[action]}`,
+        });
+      } else {
+        const reasons = [...new Set(failed.map(result => getBookingErrorMessage(result.error_code)))];
+        toast({
+          title: `${failed.length} booking${failed.length === 1 ? ' was' : 's were'} not updated`,
+          description: `${updated} of ${results.length} ${ACTION_RESULTS[action]}. ${reasons.join(' ')}`,
+          variant: "destructive",
+        });
+      }
+
+      onApplied(failed.map(result => result.booking_id));
+      return true;
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handlePriceOpenChange = (next: boolean) => {
+    setPriceOpen(next);
+    if (next) {
+      setCost('');
+      setReason('');
+    }
+  };
+
+  const applyPrice = async () => {
+    if (await applyAction('set-price')) {
+      setPriceOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border bg-blue-50 px-3 py-2">
+      <span className="text-sm font-medium mr-2">{label} selected</span>
+      <Button size="sm" variant="outline" disabled={isApplying} onClick={() => applyAction('confirm')}>
+        Confirm
+      </Button>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button size="sm" variant="destructive" disabled={isApplying}>Cancel</Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel {label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their slots are freed for other members and waitlists. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Bookings</AlertDialogCancel>
+            <AlertDialogAction onClick={() => applyAction('cancel')}>
+              Cancel Bookings
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <Button size="sm" variant="outline" disabled={isApplying} onClick={() => applyAction('no-show')}>
+        Mark No Show
+      </Button>
+      <Dialog open={priceOpen} onOpenChange={handlePriceOpenChange}>
+        <DialogTrigger asChild>
+          <Button size="sm" variant="outline" disabled={isApplying}>Set Price</Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Set Price</DialogTitle>
+            <DialogDescription>
+              Charge the same amount for {label}. Bookings whose computed price differs need a reason.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="bulk-cost">Cost (₹)</Label>
+              <Input
+                id="bulk-cost"
+                type="number"
+                min={0}
+                value={cost}
+                onChange={(e) => setCost(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="bulk-override-reason">Reason for price override</Label>
+              <Textarea
+                id="bulk-override-reason"
+                placeholder="e.g. Weekend league rate"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={applyPrice}
+              disabled={isApplying || isNaN(parsedCost) || parsedCost < 0}
+            >
+              {isApplying ? 'Saving...' : `Set Price for ${label}`}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { QrCode } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatTimeSlot } from '@/lib/schedule';
+
+interface CheckInCodeDialogProps {
+  booking: {
+    id: string;
+    booking_date: string;
+    time_slot: string;
+  };
+  gameName: string;
+}
+
+// Signed code the front desk scans to check the member in
+export const CheckInCodeDialog: React.FC<CheckInCodeDialogProps> = ({ booking, gameName }) => {
+  const [token, setToken] = useState<string | null>(null);
+
+  const fetchToken = async () => {
+    const { data, error } = await supabase.rpc('booking_check_in_token', { p_booking_id: booking.id });
+
+    if (error) {
+      console.error('Error fetching check-in code:', error);
+      return;
+    }
+
+    setToken(data);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open && !token) {
+      fetchToken();
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <QrCode className="w-4 h-4 mr-1" />
+          Check-in
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{gameName}</DialogTitle>
+          <DialogDescription>
+            {format(new Date(booking.booking_date), 'PPP')} at {formatTimeSlot(booking.time_slot)}.
+            Show this code at the front desk when you arrive.
+          </DialogDescription>
+        </DialogHeader>
+        {token ? (
+          <div className="flex flex-col items-center space-y-3">
+            <QRCodeSVG value={token} size={224} />
+            <p className="text-xs text-gray-500 font-mono break-all text-center select-all">{token}</p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-8">Loading code...</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,358 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+import { Closure, describeClosureDates } from '@/lib/closures';
+import { formatTimeSlot } from '@/lib/schedule';
+
+interface ClosuresDialogProps {
+  games: {
+    id: string;
+    name: string;
+    game_resources: { id: string; name: string; is_active: boolean }[];
+  }[];
+  onChanged: () => void;
+}
+
+interface ClosureClash {
+  booking_id: string;
+  member_name: string;
+  game_name: string;
+  resource_name: string;
+  booking_date: string;
+  time_slot: string;
+}
+
+const ALL = 'all';
+
+const emptyClosure = {
+  game_id: ALL,
+  resource_id: ALL,
+  start_date: '',
+  end_date: '',
+  start_time: '',
+  end_time: '',
+  reason: '',
+};
+
+// Holidays and maintenance windows, with the bookings each one clashes with
+export const ClosuresDialog: React.FC<ClosuresDialogProps> = ({ games, onChanged }) => {
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [newClosure, setNewClosure] = useState(emptyClosure);
+  const [reviewing, setReviewing] = useState<Closure | null>(null);
+  const [clashes, setClashes] = useState<ClosureClash[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isCanceling, setIsCanceling] = useState(false);
+
+  const fetchClosures = async () => {
+    const { data, error } = await supabase
+      .from('game_closures')
+      .select('id, game_id, resource_id, start_date, end_date, start_time, end_time, reason')
+      .gte('end_date', format(new Date(), 'yyyy-MM-dd'))
+      .order('start_date');
+
+    if (error) {
+      console.error('Error fetching closures:', error);
+      return;
+    }
+
+    setClosures(data || []);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setNewClosure(emptyClosure);
+      setReviewing(null);
+      setClashes([]);
+      fetchClosures();
+    }
+  };
+
+  const reviewClashes = async (closure: Closure) => {
+    setReviewing(closure);
+    setClashes([]);
+
+    const { data, error } = await supabase.rpc('closure_clashes', { p_closure_id: closure.id });
+
+    if (error) {
+      console.error('Error fetching closure clashes:', error);
+      return;
+    }
+
+    setClashes(data || []);
+  };
+
+  const describeScope = (closure: Closure) => {
+    const game = games.find(g => g.id === closure.game_id);
+    if (!game) return 'Whole club';
+    const resource = game.game_resources.find(r => r.id === closure.resource_id);
+    return resource ? `${game.name} · ${resource.name}` : game.name;
+  };
+
+  const addClosure = async () => {
+    const hasHours = !!newClosure.start_time || !!newClosure.end_time;
+    const endDate = newClosure.end_date || newClosure.start_date;
+
+    if (!newClosure.reason.trim() || !newClosure.start_date || endDate < newClosure.start_date
+      || (hasHours && (!newClosure.start_time || !newClosure.end_time || newClosure.end_time <= newClosure.start_time))
+    ) {
+      toast({
+        title: "Invalid closure",
+        description: "A closure needs a reason, a valid date range and, if limited to some hours, a start and end time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const { data, error } = await supabase
+        .from('game_closures')
+        .insert([{
+          game_id: newClosure.game_id === ALL ? null : newClosure.game_id,
+          resource_id: newClosure.game_id === ALL || newClosure.resource_id === ALL ? null : newClosure.resource_id,
+          start_date: newClosure.start_date,
+          end_date: endDate,
+          start_time: hasHours ? newClosure.start_time : null,
+          end_time: hasHours ? newClosure.end_time : null,
+          reason: newClosure.reason.trim(),
+        }])
+        .select('id, game_id, resource_id, start_date, end_date, start_time, end_time, reason')
+        .single();
+
+      if (error) {
+        console.error('Error adding closure:', error);
+        toast({
+          title: "Failed to add closure",
+          description: "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setNewClosure(emptyClosure);
+      await fetchClosures();
+      await reviewClashes(data);
+      onChanged();
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const deleteClosure = async (closure: Closure) => {
+    const { error } = await supabase
+      .from('game_closures')
+      .delete()
+      .eq('id', closure.id);
+
+    if (error) {
+      console.error('Error deleting closure:', error);
+      return;
+    }
+
+    if (reviewing?.id === closure.id) {
+      setReviewing(null);
+      setClashes([]);
+    }
+    await fetchClosures();
+    onChanged();
+  };
+
+  const cancelClashes = async () => {
+    if (!reviewing) return;
+
+    setIsCanceling(true);
+    try {
+      const { data, error } = await supabase.rpc('cancel_closure_bookings', { p_closure_id: reviewing.id });
+
+      const errorCode = error ? 'UNKNOWN' : data?.find(r => r.error_code)?.error_code;
+      if (errorCode) {
+        if (error) console.error('Error canceling closure bookings:', error);
+        toast({
+          title: "Failed to cancel bookings",
+          description: getBookingErrorMessage(errorCode),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Bookings canceled",
+        description: `${data?.length ?? 0} members have been notified`,
+      });
+      await reviewClashes(reviewing);
+      onChanged();
+    } finally {
+      setIsCanceling(false);
+    }
+  };
+
+  const selectedGame = games.find(g => g.id === newClosure.game_id);
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Closures</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Closures</DialogTitle>
+          <DialogDescription>
+            Holidays and maintenance. Closed slots cannot be booked and show the reason to members.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {closures.length === 0 && (
+              <p className="text-sm text-gray-500">No upcoming closures</p>
+            )}
+            {closures.map((closure) => (
+              <div key={closure.id} className="flex items-center justify-between p-3 border rounded">
+                <div>
+                  <p className="font-medium">{closure.reason}</p>
+                  <p className="text-xs text-gray-500">
+                    {describeScope(closure)} · {describeClosureDates(closure)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button size="sm" variant="outline" onClick={() => reviewClashes(closure)}>
+                    Clashes
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => deleteClosure(closure)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {reviewing && (
+            <div className="space-y-3 p-4 border rounded-lg bg-gray-50">
+              <h4 className="font-medium">Bookings during "{reviewing.reason}"</h4>
+              {clashes.length === 0 ? (
+                <p className="text-sm text-gray-500">No upcoming bookings clash with this closure</p>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    {clashes.map((clash) => (
+                      <div key={clash.booking_id} className="flex justify-between text-sm">
+                        <span>{clash.member_name}</span>
+                        <span className="text-gray-600">
+                          {clash.game_name} · {clash.resource_name} · {format(new Date(clash.booking_date), 'd MMM')} {formatTimeSlot(clash.time_slot)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <Button variant="destructive" className="w-full" onClick={cancelClashes} disabled={isCanceling}>
+                    {isCanceling ? 'Canceling...' : `Cancel ${clashes.length} bookings and notify members`}
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-3 p-4 border rounded-lg">
+            <h4 className="font-medium">Add Closure</h4>
+            <div>
+              <Label htmlFor="closure-reason">Reason</Label>
+              <Input
+                id="closure-reason"
+                placeholder="e.g. Diwali, floor polishing"
+                value={newClosure.reason}
+                onChange={(e) => setNewClosure({ ...newClosure, reason: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Game</Label>
+                <Select
+                  value={newClosure.game_id}
+                  onValueChange={(value) => setNewClosure({ ...newClosure, game_id: value, resource_id: ALL })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Whole club</SelectItem>
+                    {games.map((game) => (
+                      <SelectItem key={game.id} value={game.id}>{game.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Court</Label>
+                <Select
+                  value={newClosure.resource_id}
+                  onValueChange={(value) => setNewClosure({ ...newClosure, resource_id: value })}
+                  disabled={!selectedGame}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All courts</SelectItem>
+                    {selectedGame?.game_resources.map((resource) => (
+                      <SelectItem key={resource.id} value={resource.id}>{resource.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="closure-start-date">From</Label>
+                <Input
+                  id="closure-start-date"
+                  type="date"
+                  value={newClosure.start_date}
+                  onChange={(e) => setNewClosure({ ...newClosure, start_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="closure-end-date">To</Label>
+                <Input
+                  id="closure-end-date"
+                  type="date"
+                  placeholder="Same day"
+                  value={newClosure.end_date}
+                  onChange={(e) => setNewClosure({ ...newClosure, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="closure-start-time">From time</Label>
+                <Input
+                  id="closure-start-time"
+                  type="time"
+                  value={newClosure.start_time}
+                  onChange={(e) => setNewClosure({ ...newClosure, start_time: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="closure-end-time">To time</Label>
+                <Input
+                  id="closure-end-time"
+                  type="time"
+                  value={newClosure.end_time}
+                  onChange={(e) => setNewClosure({ ...newClosure, end_time: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Leave the times empty to close whole days</p>
+            <Button onClick={addClosure} disabled={isAdding} className="w-full">
+              {isAdding ? 'Adding...' : 'Add Closure'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
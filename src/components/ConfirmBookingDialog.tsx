@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+
+interface ConfirmBookingDialogProps {
+  booking: {
+    id: string;
+    quoted_price?: number | null;
+  };
+  onConfirm: (cost: number, overrideReason: string | null) => Promise<void>;
+}
+
+// Confirms a booking at its computed price; changing the price needs a reason
+export const ConfirmBookingDialog: React.FC<ConfirmBookingDialogProps> = ({ booking, onConfirm }) => {
+  const quotedPrice = booking.quoted_price ?? 0;
+  const [open, setOpen] = useState(false);
+  const [cost, setCost] = useState(String(quotedPrice));
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parsedCost = parseFloat(cost);
+  const isOverride = !isNaN(parsedCost) && parsedCost !== quotedPrice;
+  const canSubmit = !isNaN(parsedCost) && parsedCost >= 0 && (!isOverride || reason.trim().length > 0);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setCost(String(quotedPrice));
+      setReason('');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(parsedCost, isOverride ? reason.trim() : null);
+      setOpen(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Confirm</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Confirm Booking</DialogTitle>
+          <DialogDescription>
+            The pricing rules give ₹{quotedPrice}. Change the cost only if you need to override it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor={`cost-${booking.id}`}>Cost (₹)</Label>
+            <Input
+              id={`cost-${booking.id}`}
+              type="number"
+              min={0}
+              value={cost}
+              onChange={(e) => setCost(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+            />
+          </div>
+          {isOverride && (
+            <div>
+              <Label htmlFor={`override-reason-${booking.id}`}>Reason for price override</Label>
+              <Textarea
+                id={`override-reason-${booking.id}`}
+                placeholder="e.g. Tournament discount agreed with the captain"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          )}
+          <Button onClick={handleConfirm} disabled={!canSubmit || isSubmitting}>
+            {isSubmitting ? 'Confirming...' : 'Confirm Booking'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,365 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { formatTimeSlot, WEEKDAYS } from '@/lib/schedule';
+
+interface GamePricingDialogProps {
+  game: {
+    id: string;
+    name: string;
+    hourly_rate: number;
+    guest_hourly_rate: number | null;
+  };
+  onSaved: () => void;
+}
+
+type PricingRuleType = 'peak' | 'duration';
+
+interface PricingRule {
+  id: string;
+  name: string;
+  rule_type: PricingRuleType;
+  weekdays: number[];
+  starts_at: string | null;
+  ends_at: string | null;
+  min_duration_minutes: number | null;
+  multiplier: number;
+  is_active: boolean;
+}
+
+const emptyRule = {
+  name: '',
+  rule_type: 'peak' as PricingRuleType,
+  weekdays: [0, 1, 2, 3, 4, 5, 6],
+  starts_at: '18:00',
+  ends_at: '21:00',
+  min_duration_minutes: '120',
+  multiplier: '1.25',
+};
+
+const describeRule = (rule: PricingRule) => {
+  if (rule.rule_type === 'duration') {
+    return `Slots of ${rule.min_duration_minutes}+ minutes`;
+  }
+  const days = rule.weekdays.length === 7
+    ? 'Every day'
+    : rule.weekdays.map(weekday => WEEKDAYS[weekday].slice(0, 3)).join(', ');
+  return `${days}, ${formatTimeSlot(rule.starts_at ?? '')}–${formatTimeSlot(rule.ends_at ?? '')}`;
+};
+
+// Base rates plus the peak and duration multipliers applied on top of them
+export const GamePricingDialog: React.FC<GamePricingDialogProps> = ({ game, onSaved }) => {
+  const [open, setOpen] = useState(false);
+  const [hourlyRate, setHourlyRate] = useState(String(game.hourly_rate));
+  const [guestHourlyRate, setGuestHourlyRate] = useState(game.guest_hourly_rate?.toString() ?? '');
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from('pricing_rules')
+      .select('id, name, rule_type, weekdays, starts_at, ends_at, min_duration_minutes, multiplier, is_active')
+      .eq('game_id', game.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching pricing rules:', error);
+      return;
+    }
+
+    setRules(data || []);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setHourlyRate(String(game.hourly_rate));
+      setGuestHourlyRate(game.guest_hourly_rate?.toString() ?? '');
+      setNewRule(emptyRule);
+      fetchRules();
+    }
+  };
+
+  const saveRates = async () => {
+    const rate = parseFloat(hourlyRate);
+    const guestRate = guestHourlyRate.trim() ? parseFloat(guestHourlyRate) : null;
+
+    if (isNaN(rate) || rate < 0 || (guestRate !== null && (isNaN(guestRate) || guestRate < 0))) {
+      toast({
+        title: "Invalid rates",
+        description: "Rates must be zero or more",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('games')
+        .update({ hourly_rate: rate, guest_hourly_rate: guestRate })
+        .eq('id', game.id);
+
+      if (error) {
+        console.error('Error saving rates:', error);
+        toast({
+          title: "Failed to save rates",
+          description: "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Rates saved",
+        description: `${game.name} now costs ₹${rate}/hour for members`,
+      });
+      onSaved();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleNewRuleWeekday = (weekday: number) => {
+    const weekdays = newRule.weekdays.includes(weekday)
+      ? newRule.weekdays.filter(day => day !== weekday)
+      : [...newRule.weekdays, weekday].sort((a, b) => a - b);
+    setNewRule({ ...newRule, weekdays });
+  };
+
+  const addRule = async () => {
+    const multiplier = parseFloat(newRule.multiplier);
+    const isPeak = newRule.rule_type === 'peak';
+
+    if (!newRule.name.trim() || isNaN(multiplier) || multiplier <= 0) {
+      toast({
+        title: "Invalid rule",
+        description: "A rule needs a name and a positive multiplier",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isPeak && (newRule.weekdays.length === 0 || newRule.ends_at <= newRule.starts_at)) {
+      toast({
+        title: "Invalid rule",
+        description: "Pick at least one day and an end time after the start time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('pricing_rules')
+      .insert([{
+        game_id: game.id,
+        name: newRule.name.trim(),
+        rule_type: newRule.rule_type,
+        weekdays: newRule.weekdays,
+        starts_at: isPeak ? newRule.starts_at : null,
+        ends_at: isPeak ? newRule.ends_at : null,
+        min_duration_minutes: isPeak ? null : parseInt(newRule.min_duration_minutes, 10) || 0,
+        multiplier,
+      }]);
+
+    if (error) {
+      console.error('Error adding pricing rule:', error);
+      toast({
+        title: "Failed to add rule",
+        description: "Please try again",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setNewRule(emptyRule);
+    await fetchRules();
+  };
+
+  const toggleRule = async (rule: PricingRule) => {
+    const { error } = await supabase
+      .from('pricing_rules')
+      .update({ is_active: !rule.is_active })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error toggling pricing rule:', error);
+      return;
+    }
+
+    await fetchRules();
+  };
+
+  const deleteRule = async (rule: PricingRule) => {
+    const { error } = await supabase
+      .from('pricing_rules')
+      .delete()
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error deleting pricing rule:', error);
+      return;
+    }
+
+    await fetchRules();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Pricing</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{game.name} Pricing</DialogTitle>
+          <DialogDescription>
+            Prices are the hourly rate times the slot length, adjusted by the highest matching peak and duration rule
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="hourly-rate">Member rate (₹/hour)</Label>
+              <Input
+                id="hourly-rate"
+                type="number"
+                min={0}
+                value={hourlyRate}
+                onChange={(e) => setHourlyRate(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="guest-hourly-rate">Guest rate (₹/hour)</Label>
+              <Input
+                id="guest-hourly-rate"
+                type="number"
+                min={0}
+                placeholder="Same as members"
+                value={guestHourlyRate}
+                onChange={(e) => setGuestHourlyRate(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button onClick={saveRates} disabled={isSaving} className="w-full">
+            {isSaving ? 'Saving...' : 'Save Rates'}
+          </Button>
+
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="font-medium">Rules</h4>
+            {rules.length === 0 && (
+              <p className="text-sm text-gray-500">No rules; every slot costs the base rate</p>
+            )}
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-3 border rounded">
+                <div>
+                  <p className="font-medium">{rule.name} ×{rule.multiplier}</p>
+                  <p className="text-xs text-gray-500">{describeRule(rule)}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant={rule.is_active ? "default" : "secondary"}>
+                    {rule.is_active ? 'Active' : 'Inactive'}
+                  </Badge>
+                  <Button size="sm" variant="outline" onClick={() => toggleRule(rule)}>
+                    {rule.is_active ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => deleteRule(rule)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3 p-4 border rounded-lg">
+            <h4 className="font-medium">Add Rule</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  placeholder="e.g. Weekend evenings"
+                  value={newRule.name}
+                  onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Type</Label>
+                <Select
+                  value={newRule.rule_type}
+                  onValueChange={(value) => setNewRule({ ...newRule, rule_type: value as PricingRuleType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="peak">Peak hours</SelectItem>
+                    <SelectItem value="duration">Long slots</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {newRule.rule_type === 'peak' ? (
+              <>
+                <div className="flex flex-wrap gap-1">
+                  {WEEKDAYS.map((day, weekday) => (
+                    <Button
+                      key={day}
+                      size="sm"
+                      variant={newRule.weekdays.includes(weekday) ? "default" : "outline"}
+                      onClick={() => toggleNewRuleWeekday(weekday)}
+                    >
+                      {day.slice(0, 3)}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Input
+                    type="time"
+                    value={newRule.starts_at}
+                    onChange={(e) => setNewRule({ ...newRule, starts_at: e.target.value })}
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <Input
+                    type="time"
+                    value={newRule.ends_at}
+                    onChange={(e) => setNewRule({ ...newRule, ends_at: e.target.value })}
+                  />
+                </div>
+              </>
+            ) : (
+              <div>
+                <Label htmlFor="rule-min-duration">Applies to slots of at least (minutes)</Label>
+                <Input
+                  id="rule-min-duration"
+                  type="number"
+                  min={1}
+                  value={newRule.min_duration_minutes}
+                  onChange={(e) => setNewRule({ ...newRule, min_duration_minutes: e.target.value })}
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="rule-multiplier">Multiplier</Label>
+              <Input
+                id="rule-multiplier"
+                type="number"
+                step="0.05"
+                min={0}
+                value={newRule.multiplier}
+                onChange={(e) => setNewRule({ ...newRule, multiplier: e.target.value })}
+              />
+            </div>
+            <Button onClick={addRule} className="w-full">Add Rule</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+
+interface GameResourcesDialogProps {
+  game: {
+    id: string;
+    name: string;
+  };
+}
+
+interface GameResource {
+  id: string;
+  name: string;
+  is_active: boolean;
+}
+
+export const GameResourcesDialog: React.FC<GameResourcesDialogProps> = ({ game }) => {
+  const [resources, setResources] = useState<GameResource[]>([]);
+  const [newResourceName, setNewResourceName] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const fetchResources = async () => {
+    const { data, error } = await supabase
+      .from('game_resources')
+      .select('id, name, is_active')
+      .eq('game_id', game.id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching resources:', error);
+      return;
+    }
+
+    setResources(data || []);
+  };
+
+  const addResource = async () => {
+    if (!newResourceName.trim()) return;
+
+    setIsAdding(true);
+    try {
+      const { error } = await supabase
+        .from('game_resources')
+        .insert([{ game_id: game.id, name: newResourceName.trim() }]);
+
+      if (error) {
+        console.error('Error adding resource:', error);
+        toast({
+          title: "Failed to add court",
+          description: "Names must be unique within a game",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setNewResourceName('');
+      await fetchResources();
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const toggleResource = async (resource: GameResource) => {
+    const { error } = await supabase
+      .from('game_resources')
+      .update({ is_active: !resource.is_active })
+      .eq('id', resource.id);
+
+    if (error) {
+      console.error('Error toggling resource:', error);
+      return;
+    }
+
+    await fetchResources();
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && fetchResources()}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Courts</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{game.name} Courts</DialogTitle>
+          <DialogDescription>
+            Each court, table or ground can be booked separately for the same slot
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {resources.map((resource) => (
+              <div key={resource.id} className="flex items-center justify-between p-3 border rounded">
+                <span className="font-medium">{resource.name}</span>
+                <div className="flex items-center space-x-2">
+                  <Badge variant={resource.is_active ? "default" : "secondary"}>
+                    {resource.is_active ? 'Active' : 'Inactive'}
+                  </Badge>
+                  <Button size="sm" variant="outline" onClick={() => toggleResource(resource)}>
+                    {resource.is_active ? 'Deactivate' : 'Activate'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <Input
+              placeholder="e.g. Court 4"
+              value={newResourceName}
+              onChange={(e) => setNewResourceName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addResource()}
+            />
+            <Button onClick={addResource} disabled={isAdding}>
+              {isAdding ? 'Adding...' : 'Add'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
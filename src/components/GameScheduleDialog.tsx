@@ -0,0 +1,384 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { formatTimeSlot, toMinutes, WEEKDAYS } from '@/lib/schedule';
+
+interface GameScheduleDialogProps {
+  game: {
+    id: string;
+    name: string;
+    slot_duration_minutes: number;
+    buffer_minutes: number;
+    free_cancellation_hours: number;
+    change_cutoff_hours: number;
+    pending_expiry_hours: number;
+    pending_cutoff_hours: number;
+    booking_window_days: number;
+    booking_release_time: string | null;
+    min_lead_minutes: number;
+    is_outdoor: boolean;
+    no_show_grace_minutes: number;
+  };
+  onSaved: () => void;
+}
+
+interface DayHours {
+  isOpen: boolean;
+  opens_at: string;
+  closes_at: string;
+}
+
+const closedDay: DayHours = { isOpen: false, opens_at: '09:00', closes_at: '21:00' };
+
+export const GameScheduleDialog: React.FC<GameScheduleDialogProps> = ({ game, onSaved }) => {
+  const [open, setOpen] = useState(false);
+  const [slotDuration, setSlotDuration] = useState(String(game.slot_duration_minutes));
+  const [buffer, setBuffer] = useState(String(game.buffer_minutes));
+  const [freeCancellationHours, setFreeCancellationHours] = useState(String(game.free_cancellation_hours));
+  const [changeCutoffHours, setChangeCutoffHours] = useState(String(game.change_cutoff_hours));
+  const [pendingExpiryHours, setPendingExpiryHours] = useState(String(game.pending_expiry_hours));
+  const [pendingCutoffHours, setPendingCutoffHours] = useState(String(game.pending_cutoff_hours));
+  const [windowDays, setWindowDays] = useState(String(game.booking_window_days));
+  const [releaseTime, setReleaseTime] = useState(game.booking_release_time ? formatTimeSlot(game.booking_release_time) : '');
+  const [leadMinutes, setLeadMinutes] = useState(String(game.min_lead_minutes));
+  const [isOutdoor, setIsOutdoor] = useState(game.is_outdoor);
+  const [noShowGraceMinutes, setNoShowGraceMinutes] = useState(String(game.no_show_grace_minutes));
+  const [days, setDays] = useState<DayHours[]>(WEEKDAYS.map(() => closedDay));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchHours = async () => {
+    const { data, error } = await supabase
+      .from('game_operating_hours')
+      .select('weekday, opens_at, closes_at')
+      .eq('game_id', game.id);
+
+    if (error) {
+      console.error('Error fetching operating hours:', error);
+      return;
+    }
+
+    setDays(WEEKDAYS.map((_, weekday) => {
+      const hours = data?.find(h => h.weekday === weekday);
+      return hours
+        ? { isOpen: true, opens_at: formatTimeSlot(hours.opens_at), closes_at: formatTimeSlot(hours.closes_at) }
+        : closedDay;
+    }));
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setSlotDuration(String(game.slot_duration_minutes));
+      setBuffer(String(game.buffer_minutes));
+      setFreeCancellationHours(String(game.free_cancellation_hours));
+      setChangeCutoffHours(String(game.change_cutoff_hours));
+      setPendingExpiryHours(String(game.pending_expiry_hours));
+      setPendingCutoffHours(String(game.pending_cutoff_hours));
+      setWindowDays(String(game.booking_window_days));
+      setReleaseTime(game.booking_release_time ? formatTimeSlot(game.booking_release_time) : '');
+      setLeadMinutes(String(game.min_lead_minutes));
+      setIsOutdoor(game.is_outdoor);
+      setNoShowGraceMinutes(String(game.no_show_grace_minutes));
+      fetchHours();
+    }
+  };
+
+  const updateDay = (weekday: number, changes: Partial<DayHours>) => {
+    setDays(days.map((day, i) => (i === weekday ? { ...day, ...changes } : day)));
+  };
+
+  const saveSchedule = async () => {
+    const duration = parseInt(slotDuration, 10);
+    const bufferMinutes = parseInt(buffer, 10) || 0;
+
+    if (!duration || duration <= 0 || bufferMinutes < 0) {
+      toast({
+        title: "Invalid schedule",
+        description: "Slot length must be positive and buffer cannot be negative",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const freeCancellation = parseInt(freeCancellationHours, 10) || 0;
+    const changeCutoff = parseInt(changeCutoffHours, 10) || 0;
+
+    if (freeCancellation < 0 || changeCutoff < 0 || changeCutoff > freeCancellation) {
+      toast({
+        title: "Invalid cancellation policy",
+        description: "The change cutoff cannot be earlier than the free cancellation period",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const pendingExpiry = parseInt(pendingExpiryHours, 10);
+    const pendingCutoff = parseInt(pendingCutoffHours, 10) || 0;
+
+    if (!pendingExpiry || pendingExpiry <= 0 || pendingCutoff < 0) {
+      toast({
+        title: "Invalid approval deadline",
+        description: "Pending bookings must expire a positive number of hours after they are made",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const bookingWindowDays = parseInt(windowDays, 10);
+    const minLeadMinutes = parseInt(leadMinutes, 10) || 0;
+    const noShowGrace = parseInt(noShowGraceMinutes, 10) || 0;
+
+    if (isNaN(bookingWindowDays) || bookingWindowDays < 0 || minLeadMinutes < 0 || noShowGrace < 0) {
+      toast({
+        title: "Invalid booking window",
+        description: "Days ahead, lead time and check-in grace cannot be negative",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidDay = days.findIndex(day =>
+      day.isOpen && toMinutes(day.closes_at) - toMinutes(day.opens_at) < duration
+    );
+    if (invalidDay !== -1) {
+      toast({
+        title: "Invalid schedule",
+        description: `${WEEKDAYS[invalidDay]} is too short to fit a ${duration} minute slot`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error: gameError } = await supabase
+        .from('games')
+        .update({
+          slot_duration_minutes: duration,
+          buffer_minutes: bufferMinutes,
+          free_cancellation_hours: freeCancellation,
+          change_cutoff_hours: changeCutoff,
+          pending_expiry_hours: pendingExpiry,
+          pending_cutoff_hours: pendingCutoff,
+          booking_window_days: bookingWindowDays,
+          booking_release_time: releaseTime || null,
+          min_lead_minutes: minLeadMinutes,
+          is_outdoor: isOutdoor,
+          no_show_grace_minutes: noShowGrace,
+        })
+        .eq('id', game.id);
+
+      if (gameError) throw gameError;
+
+      const { error: deleteError } = await supabase
+        .from('game_operating_hours')
+        .delete()
+        .eq('game_id', game.id);
+
+      if (deleteError) throw deleteError;
+
+      const rows = days.flatMap((day, weekday) =>
+        day.isOpen ? [{ game_id: game.id, weekday, opens_at: day.opens_at, closes_at: day.closes_at }] : []
+      );
+
+      if (rows.length > 0) {
+        const { error: insertError } = await supabase
+          .from('game_operating_hours')
+          .insert(rows);
+
+        if (insertError) throw insertError;
+      }
+
+      toast({
+        title: "Schedule saved",
+        description: `${game.name} now runs ${duration} minute slots`,
+      });
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      toast({
+        title: "Failed to save schedule",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Schedule</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{game.name} Schedule</DialogTitle>
+          <DialogDescription>
+            Opening hours, slot length, booking window, cancellation policy and approval deadline
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="slot-duration">Slot length (minutes)</Label>
+              <Input
+                id="slot-duration"
+                type="number"
+                min={1}
+                value={slotDuration}
+                onChange={(e) => setSlotDuration(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="slot-buffer">Buffer (minutes)</Label>
+              <Input
+                id="slot-buffer"
+                type="number"
+                min={0}
+                value={buffer}
+                onChange={(e) => setBuffer(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="booking-window">Opens (days ahead)</Label>
+              <Input
+                id="booking-window"
+                type="number"
+                min={0}
+                value={windowDays}
+                onChange={(e) => setWindowDays(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="release-time">Release time</Label>
+              <Input
+                id="release-time"
+                type="time"
+                value={releaseTime}
+                onChange={(e) => setReleaseTime(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="lead-time">Lead time (minutes)</Label>
+              <Input
+                id="lead-time"
+                type="number"
+                min={0}
+                value={leadMinutes}
+                onChange={(e) => setLeadMinutes(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Leave the release time empty to open each new day at midnight
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="free-cancellation">Free cancellation (hours before)</Label>
+              <Input
+                id="free-cancellation"
+                type="number"
+                min={0}
+                value={freeCancellationHours}
+                onChange={(e) => setFreeCancellationHours(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="change-cutoff">No changes within (hours)</Label>
+              <Input
+                id="change-cutoff"
+                type="number"
+                min={0}
+                value={changeCutoffHours}
+                onChange={(e) => setChangeCutoffHours(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="pending-expiry">Unapproved bookings expire after (hours)</Label>
+              <Input
+                id="pending-expiry"
+                type="number"
+                min={1}
+                value={pendingExpiryHours}
+                onChange={(e) => setPendingExpiryHours(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="pending-cutoff">Or this many hours before start (later bookings wait until start)</Label>
+              <Input
+                id="pending-cutoff"
+                type="number"
+                min={0}
+                value={pendingCutoffHours}
+                onChange={(e) => setPendingCutoffHours(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="no-show-grace">No-show if not checked in within (minutes after start)</Label>
+            <Input
+              id="no-show-grace"
+              type="number"
+              min={0}
+              value={noShowGraceMinutes}
+              onChange={(e) => setNoShowGraceMinutes(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <Switch checked={isOutdoor} onCheckedChange={setIsOutdoor} />
+            <span className="text-sm">Outdoor game (can be rained off)</span>
+          </div>
+
+          <div className="space-y-2">
+            {days.map((day, weekday) => (
+              <div key={WEEKDAYS[weekday]} className="flex items-center space-x-3">
+                <Switch
+                  checked={day.isOpen}
+                  onCheckedChange={(checked) => updateDay(weekday, { isOpen: checked })}
+                />
+                <span className="w-24 text-sm">{WEEKDAYS[weekday]}</span>
+                {day.isOpen ? (
+                  <>
+                    <Input
+                      type="time"
+                      value={day.opens_at}
+                      onChange={(e) => updateDay(weekday, { opens_at: e.target.value })}
+                    />
+                    <span className="text-sm text-gray-500">to</span>
+                    <Input
+                      type="time"
+                      value={day.closes_at}
+                      onChange={(e) => updateDay(weekday, { closes_at: e.target.value })}
+                    />
+                  </>
+                ) : (
+                  <span className="text-sm text-gray-500">Closed</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <Button onClick={saveSchedule} disabled={isSaving} className="w-full">
+            {isSaving ? 'Saving...' : 'Save Schedule'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { MemberStanding, StandingLevel, getStandingColor, standingLabels } from '@/lib/standing';
+
+type MembershipType = 'member' | 'guest';
+
+interface MemberProfileDialogProps {
+  member: {
+    id: string;
+    name: string;
+    email: string;
+    membership_type: MembershipType;
+  };
+  onChanged: () => void;
+}
+
+export const MemberProfileDialog: React.FC<MemberProfileDialogProps> = ({ member, onChanged }) => {
+  const [open, setOpen] = useState(false);
+  const [membershipType, setMembershipType] = useState<MembershipType>(member.membership_type);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [standing, setStanding] = useState<MemberStanding | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCreditBalance = async () => {
+    const { data, error } = await supabase
+      .from('member_credits')
+      .select('amount')
+      .eq('user_id', member.id);
+
+    if (error) {
+      console.error('Error fetching credits:', error);
+      return;
+    }
+
+    setCreditBalance(data?.reduce((sum, credit) => sum + Number(credit.amount), 0) || 0);
+  };
+
+  const fetchStanding = async () => {
+    const { data, error } = await supabase.rpc('member_standing', { p_user_id: member.id });
+
+    if (error) {
+      console.error('Error fetching standing:', error);
+      return;
+    }
+
+    setStanding(data?.[0] ?? null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setMembershipType(member.membership_type);
+      fetchCreditBalance();
+      fetchStanding();
+    }
+  };
+
+  // Records the balance as paid back in cash or to the original payment method
+  const refundCredit = async () => {
+    const { error } = await supabase
+      .from('member_credits')
+      .insert([{ user_id: member.id, amount: -creditBalance, reason: 'Refunded' }]);
+
+    if (error) {
+      console.error('Error refunding credit:', error);
+      toast({
+        title: "Refund failed",
+        description: "Please try again",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Credit refunded",
+      description: `₹${creditBalance} refunded to ${member.name}`,
+    });
+    await fetchCreditBalance();
+  };
+
+  const saveProfile = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ membership_type: membershipType })
+        .eq('id', member.id);
+
+      if (error) {
+        console.error('Error updating profile:', error);
+        toast({
+          title: "Update failed",
+          description: "Failed to update membership",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Profile updated",
+        description: `${member.name} now pays ${membershipType} rates`,
+      });
+      setOpen(false);
+      onChanged();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="font-medium text-left hover:underline">{member.name}</button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{member.name}</DialogTitle>
+          <DialogDescription>{member.email}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Membership</Label>
+            <Select value={membershipType} onValueChange={(value) => setMembershipType(value as MembershipType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="member">Member</SelectItem>
+                <SelectItem value="guest">Guest</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">Guests are charged the guest rate where a game has one</p>
+          </div>
+          {standing && (
+            <div className="p-3 border rounded space-y-1">
+              <div className="flex items-center justify-between">
+                <Label>Standing</Label>
+                <Badge className={getStandingColor(standing.standing)}>
+                  {standingLabels[standing.standing as StandingLevel] ?? standing.standing}
+                </Badge>
+              </div>
+              <p className="text-sm">
+                {standing.points} points · {standing.no_shows} no-shows · {standing.late_cancellations} late cancellations
+              </p>
+              {standing.suspended_until && (
+                <p className="text-xs text-gray-500">
+                  Can book again from {format(new Date(standing.suspended_until), 'PPP')}
+                </p>
+              )}
+            </div>
+          )}
+          <div className="flex items-center justify-between p-3 border rounded">
+            <div>
+              <Label>Credit balance</Label>
+              <p className="text-sm">₹{creditBalance}</p>
+            </div>
+            {creditBalance > 0 && (
+              <Button size="sm" variant="outline" onClick={refundCredit}>Mark refunded</Button>
+            )}
+          </div>
+          <Button onClick={saveProfile} disabled={isSaving || membershipType === member.membership_type}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
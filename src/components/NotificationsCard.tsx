@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Bell } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+interface Notification {
+  id: string;
+  title: string;
+  body: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export const NotificationsCard = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, []);
+
+  const fetchNotifications = async () => {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('id, title, body, read_at, created_at')
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+
+    setNotifications(data || []);
+  };
+
+  const markAllRead = async () => {
+    const { error } = await supabase.rpc('mark_notifications_read');
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return;
+    }
+
+    await fetchNotifications();
+  };
+
+  const unreadCount = notifications.filter(n => !n.read_at).length;
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center space-x-2">
+            <Bell className="w-5 h-5 text-orange-600" />
+            <span>Notifications</span>
+            {unreadCount > 0 && <Badge>{unreadCount} new</Badge>}
+          </CardTitle>
+          <CardDescription>Changes to your bookings made by the club</CardDescription>
+        </div>
+        {unreadCount > 0 && (
+          <Button size="sm" variant="outline" onClick={markAllRead}>Mark all read</Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {notifications.map((notification) => (
+            <div
+              key={notification.id}
+              className={cn("p-3 border rounded-lg", !notification.read_at && "bg-orange-50 border-orange-200")}
+            >
+              <p className="font-medium text-sm">{notification.title}</p>
+              <p className="text-sm text-gray-600">{notification.body}</p>
+              <p className="text-xs text-gray-400 mt-1">{format(new Date(notification.created_at), 'PPP p')}</p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { CloudRain } from 'lucide-react';
+import { format } from 'date-fns';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+import { formatTimeSlot } from '@/lib/schedule';
+
+interface RainedOffBooking {
+  booking_id: string;
+  game_id: string;
+  game_name: string;
+  booking_date: string;
+  time_slot: string;
+}
+
+interface FreeSlot {
+  booking_date: string;
+  time_slot: string;
+}
+
+interface RainedOffCardProps {
+  onRebooked: () => void;
+}
+
+// Weather-canceled bookings with the next free slots to rebook them into
+export const RainedOffCard: React.FC<RainedOffCardProps> = ({ onRebooked }) => {
+  const [bookings, setBookings] = useState<RainedOffBooking[]>([]);
+  const [freeSlots, setFreeSlots] = useState<Record<string, FreeSlot[]>>({});
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [rebookingId, setRebookingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRainedOff();
+    fetchCreditBalance();
+  }, []);
+
+  const fetchRainedOff = async () => {
+    const { data, error } = await supabase.rpc('my_rained_off_bookings');
+
+    if (error) {
+      console.error('Error fetching rained-off bookings:', error);
+      return;
+    }
+
+    setBookings(data || []);
+
+    const slots: Record<string, FreeSlot[]> = {};
+    for (const gameId of new Set(data?.map(b => b.game_id))) {
+      const { data: gameSlots, error: slotsError } = await supabase.rpc('next_free_slots', { p_game_id: gameId });
+      if (slotsError) {
+        console.error('Error fetching free slots:', slotsError);
+        continue;
+      }
+      slots[gameId] = gameSlots || [];
+    }
+    setFreeSlots(slots);
+  };
+
+  const fetchCreditBalance = async () => {
+    const { data, error } = await supabase
+      .from('member_credits')
+      .select('amount');
+
+    if (error) {
+      console.error('Error fetching credits:', error);
+      return;
+    }
+
+    setCreditBalance(data?.reduce((sum, credit) => sum + Number(credit.amount), 0) || 0);
+  };
+
+  const rebook = async (booking: RainedOffBooking, slot: FreeSlot) => {
+    setRebookingId(booking.booking_id);
+    try {
+      const { data, error } = await supabase.rpc('rebook_rained_off_booking', {
+        p_booking_id: booking.booking_id,
+        p_booking_date: slot.booking_date,
+        p_time_slot: slot.time_slot,
+      });
+
+      const errorCode = error ? 'UNKNOWN' : data?.[0]?.error_code;
+      if (errorCode) {
+        if (error) console.error('Rebooking error:', error);
+        toast({
+          title: "Rebooking failed",
+          description: getBookingErrorMessage(errorCode),
+          variant: "destructive",
+        });
+        await fetchRainedOff();
+        return;
+      }
+
+      toast({
+        title: "Rebooked!",
+        description: `${booking.game_name} on ${format(new Date(slot.booking_date), 'PPP')} at ${formatTimeSlot(slot.time_slot)}`,
+      });
+      await fetchRainedOff();
+      onRebooked();
+    } finally {
+      setRebookingId(null);
+    }
+  };
+
+  if (bookings.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CloudRain className="w-5 h-5 text-blue-600" />
+          <span>Rained Off</span>
+        </CardTitle>
+        <CardDescription>
+          Pick a new slot with one click
+          {creditBalance > 0 && ` · ₹${creditBalance} credit on your account`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {bookings.map((booking) => (
+            <div key={booking.booking_id} className="p-4 border rounded-lg space-y-3">
+              <div>
+                <h3 className="font-medium">{booking.game_name}</h3>
+                <p className="text-sm text-gray-500">
+                  Was {format(new Date(booking.booking_date), 'PPP')} at {formatTimeSlot(booking.time_slot)}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {(freeSlots[booking.game_id] || []).map((slot) => (
+                  <Button
+                    key={`${slot.booking_date}-${slot.time_slot}`}
+                    size="sm"
+                    variant="outline"
+                    disabled={rebookingId === booking.booking_id}
+                    onClick={() => rebook(booking, slot)}
+                  >
+                    {format(new Date(slot.booking_date), 'EEE d MMM')} {formatTimeSlot(slot.time_slot)}
+                  </Button>
+                ))}
+                {freeSlots[booking.game_id]?.length === 0 && (
+                  <p className="text-sm text-gray-500">No free slots right now</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+import { BookingWindow, getLastBookableDate, isWithinLeadTime } from '@/lib/bookingPolicy';
+import { formatTimeSlot, generateTimeSlots, GameSchedule } from '@/lib/schedule';
+
+interface RescheduleBookingDialogProps {
+  booking: {
+    id: string;
+    game_id: string;
+    booking_date: string;
+    time_slot: string;
+  };
+  gameName: string;
+  onRescheduled: () => void;
+}
+
+export const RescheduleBookingDialog: React.FC<RescheduleBookingDialogProps> = ({ booking, gameName, onRescheduled }) => {
+  const [open, setOpen] = useState(false);
+  const [schedule, setSchedule] = useState<(GameSchedule & BookingWindow) | null>(null);
+  const [selectedDate, setSelectedDate] = useState<Date>();
+  const [selectedTime, setSelectedTime] = useState('');
+  const [freeSlots, setFreeSlots] = useState<string[]>([]);
+  const [closureReasons, setClosureReasons] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open && !schedule) {
+      fetchSchedule();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setSelectedTime('');
+    if (selectedDate) {
+      fetchFreeSlots();
+    }
+  }, [selectedDate]);
+
+  const fetchSchedule = async () => {
+    const { data, error } = await supabase
+      .from('games')
+      .select(`
+        slot_duration_minutes,
+        buffer_minutes,
+        booking_window_days,
+        booking_release_time,
+        min_lead_minutes,
+        game_operating_hours (weekday, opens_at, closes_at)
+      `)
+      .eq('id', booking.game_id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching schedule:', error);
+      return;
+    }
+
+    setSchedule(data);
+  };
+
+  const fetchFreeSlots = async () => {
+    if (!selectedDate) return;
+
+    const { data, error } = await supabase.rpc('slot_availability', {
+      p_game_id: booking.game_id,
+      p_date: format(selectedDate, 'yyyy-MM-dd'),
+    });
+
+    if (error) {
+      console.error('Error fetching availability:', error);
+      return;
+    }
+
+    setFreeSlots(
+      data?.filter(slot => slot.free_resource_ids.length > 0).map(slot => formatTimeSlot(slot.time_slot)) || []
+    );
+    setClosureReasons([...new Set(data?.map(slot => slot.closure_reason).filter(Boolean))]);
+  };
+
+  const handleReschedule = async () => {
+    if (!selectedDate || !selectedTime) return;
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc('reschedule_booking', {
+        p_booking_id: booking.id,
+        p_booking_date: format(selectedDate, 'yyyy-MM-dd'),
+        p_time_slot: selectedTime,
+      });
+
+      const errorCode = error ? 'UNKNOWN' : data?.[0]?.error_code;
+      if (errorCode) {
+        if (error) console.error('Reschedule error:', error);
+        toast({
+          title: "Reschedule failed",
+          description: getBookingErrorMessage(errorCode),
+          variant: "destructive",
+        });
+        fetchFreeSlots();
+        return;
+      }
+
+      toast({
+        title: "Booking moved",
+        description: `Your booking is now on ${format(selectedDate, 'PPP')} at ${selectedTime} and awaits approval`,
+      });
+      setOpen(false);
+      onRescheduled();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const timeSlots = schedule && selectedDate ? generateTimeSlots(schedule, selectedDate) : [];
+
+  const isDateDisabled = (date: Date) => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    if (date < today) return true;
+    if (!schedule) return false;
+    return date > getLastBookableDate(schedule)
+      || !schedule.game_operating_hours.some(h => h.weekday === date.getDay());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Reschedule</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reschedule {gameName}</DialogTitle>
+          <DialogDescription>
+            Currently {format(new Date(booking.booking_date), 'PPP')} at {formatTimeSlot(booking.time_slot)}.
+            Your current slot is kept until the new one is confirmed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={setSelectedDate}
+            disabled={isDateDisabled}
+            className="p-3 border rounded-md mx-auto"
+          />
+          {selectedDate && (
+            timeSlots.length === 0 ? (
+              <p className="text-sm text-gray-500">{gameName} is closed on this day</p>
+            ) : (
+              <div className="grid grid-cols-4 gap-2">
+                {timeSlots.map((time) => {
+                  const available = freeSlots.includes(time)
+                    && !(schedule && isWithinLeadTime(format(selectedDate, 'yyyy-MM-dd'), time, schedule));
+                  return (
+                    <Button
+                      key={time}
+                      size="sm"
+                      variant={selectedTime === time ? "default" : "outline"}
+                      className={cn(!available && "opacity-50 cursor-not-allowed")}
+                      disabled={!available}
+                      onClick={() => setSelectedTime(time)}
+                    >
+                      {time}
+                    </Button>
+                  );
+                })}
+              </div>
+            )
+          )}
+          {selectedDate && closureReasons.map((reason) => (
+            <p key={reason} className="text-sm text-gray-500">Some slots are closed: {reason}</p>
+          ))}
+          <Button
+            className="w-full"
+            onClick={handleReschedule}
+            disabled={!selectedDate || !selectedTime || isSubmitting}
+          >
+            {isSubmitting ? 'Moving...' : 'Move Booking'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
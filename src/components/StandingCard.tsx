@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck } from 'lucide-react';
+import {
+  MemberStanding,
+  StandingLevel,
+  StandingPolicy,
+  describeStanding,
+  describeStandingPolicy,
+  getStandingColor,
+  standingLabels,
+} from '@/lib/standing';
+
+// The member's standing and the rules behind it
+export const StandingCard = () => {
+  const { user } = useAuth();
+  const [standing, setStanding] = useState<MemberStanding | null>(null);
+  const [policy, setPolicy] = useState<StandingPolicy | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchStanding();
+      fetchPolicy();
+    }
+  }, [user]);
+
+  const fetchStanding = async () => {
+    const { data, error } = await supabase.rpc('member_standing', { p_user_id: user?.id });
+
+    if (error) {
+      console.error('Error fetching standing:', error);
+      return;
+    }
+
+    setStanding(data?.[0] ?? null);
+  };
+
+  const fetchPolicy = async () => {
+    const { data, error } = await supabase
+      .from('standing_policy')
+      .select('window_days, no_show_points, late_cancellation_points, warning_points, approval_points, suspension_points, suspension_days')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching standing policy:', error);
+      return;
+    }
+
+    setPolicy(data);
+  };
+
+  if (!standing) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <ShieldCheck className="w-5 h-5 text-green-600" />
+            <span>Your Standing</span>
+          </span>
+          <Badge className={getStandingColor(standing.standing)}>
+            {standingLabels[standing.standing as StandingLevel] ?? standing.standing}
+          </Badge>
+        </CardTitle>
+        <CardDescription>{describeStanding(standing)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-sm">
+          {standing.points} points from {standing.no_shows} no-shows and {standing.late_cancellations} late cancellations
+          {policy && ` in the last ${policy.window_days} days`}
+        </p>
+        {policy && (
+          <ul className="text-xs text-gray-500 list-disc pl-4 space-y-1">
+            {describeStandingPolicy(policy).map(line => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { ShieldCheck } from 'lucide-react';
+import { StandingPolicy } from '@/lib/standing';
+
+type PolicyForm = Record<keyof StandingPolicy, string>;
+
+const POLICY_SECTIONS: { title: string; fields: { key: keyof StandingPolicy; label: string }[] }[] = [
+  {
+    title: 'Points',
+    fields: [
+      { key: 'no_show_points', label: 'Per no-show' },
+      { key: 'late_cancellation_points', label: 'Per late cancellation' },
+      { key: 'window_days', label: 'Counted for (days)' },
+    ],
+  },
+  {
+    title: 'Thresholds',
+    fields: [
+      { key: 'warning_points', label: 'Warning at' },
+      { key: 'approval_points', label: 'Approval needed at' },
+      { key: 'suspension_points', label: 'Suspended at' },
+    ],
+  },
+  {
+    title: 'Suspension',
+    fields: [
+      { key: 'suspension_days', label: 'Length (days)' },
+    ],
+  },
+];
+
+const emptyPolicy: PolicyForm = {
+  window_days: '',
+  no_show_points: '',
+  late_cancellation_points: '',
+  warning_points: '',
+  approval_points: '',
+  suspension_points: '',
+  suspension_days: '',
+};
+
+// Club-wide rules that turn no-shows and late cancellations into a member's standing
+export const StandingPolicyDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [policy, setPolicy] = useState<PolicyForm>(emptyPolicy);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchPolicy = async () => {
+    const { data, error } = await supabase
+      .from('standing_policy')
+      .select('window_days, no_show_points, late_cancellation_points, warning_points, approval_points, suspension_points, suspension_days')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching standing policy:', error);
+      return;
+    }
+
+    if (data) {
+      setPolicy({
+        window_days: data.window_days.toString(),
+        no_show_points: data.no_show_points.toString(),
+        late_cancellation_points: data.late_cancellation_points.toString(),
+        warning_points: data.warning_points.toString(),
+        approval_points: data.approval_points.toString(),
+        suspension_points: data.suspension_points.toString(),
+        suspension_days: data.suspension_days.toString(),
+      });
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      fetchPolicy();
+    }
+  };
+
+  const savePolicy = async () => {
+    const values: StandingPolicy = {
+      window_days: parseInt(policy.window_days, 10),
+      no_show_points: parseInt(policy.no_show_points, 10),
+      late_cancellation_points: parseInt(policy.late_cancellation_points, 10),
+      warning_points: parseInt(policy.warning_points, 10),
+      approval_points: parseInt(policy.approval_points, 10),
+      suspension_points: parseInt(policy.suspension_points, 10),
+      suspension_days: parseInt(policy.suspension_days, 10),
+    };
+
+    if (Object.values(values).some(value => isNaN(value) || value < 0)) {
+      toast({
+        title: "Invalid policy",
+        description: "Every field needs a whole number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (values.warning_points < 1 || values.warning_points > values.approval_points || values.approval_points > values.suspension_points) {
+      toast({
+        title: "Invalid thresholds",
+        description: "Thresholds must start at 1 point and rise from warning to approval to suspension",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (values.window_days < 1 || values.suspension_days < 1) {
+      toast({
+        title: "Invalid policy",
+        description: "The counting period and suspension must be at least a day",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('standing_policy')
+        .update(values)
+        .eq('id', true);
+
+      if (error) {
+        console.error('Error saving standing policy:', error);
+        toast({
+          title: "Failed to save policy",
+          description: "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Standing policy saved",
+        description: "Member standings now follow the new rules",
+      });
+      setOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Standing
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Member Standing</DialogTitle>
+          <DialogDescription>
+            No-shows and late cancellations add up to points. Members at the approval threshold
+            have every booking reviewed; at the suspension threshold they cannot book for a while.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {POLICY_SECTIONS.map(({ title, fields }) => (
+            <div key={title} className="space-y-2">
+              <h4 className="font-medium">{title}</h4>
+              <div className="grid grid-cols-3 gap-3">
+                {fields.map(({ key, label }) => (
+                  <div key={key}>
+                    <Label htmlFor={`standing-${key}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`standing-${key}`}
+                      type="number"
+                      min={0}
+                      value={policy[key]}
+                      onChange={(e) => setPolicy({ ...policy, [key]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <Button onClick={savePolicy} disabled={isSaving} className="w-full">
+            {isSaving ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
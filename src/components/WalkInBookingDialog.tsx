@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+
+export interface WalkInSlot {
+  gameId: string;
+  gameName: string;
+  resourceId?: string;
+  resourceName?: string;
+  date: Date;
+  time: string;
+}
+
+interface WalkInBookingDialogProps {
+  slot: WalkInSlot | null;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+interface Member {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// Books a free slot for a member standing at the front desk
+export const WalkInBookingDialog: React.FC<WalkInBookingDialogProps> = ({ slot, onClose, onCreated }) => {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [search, setSearch] = useState('');
+  const [memberId, setMemberId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (slot) {
+      setSearch('');
+      setMemberId('');
+      setNotes('');
+      if (members.length === 0) {
+        fetchMembers();
+      }
+    }
+  }, [slot]);
+
+  const fetchMembers = async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, name, email')
+      .eq('role', 'user')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching members:', error);
+      return;
+    }
+
+    setMembers(data || []);
+  };
+
+  const createBooking = async () => {
+    if (!slot || !memberId) return;
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc('create_walk_in_booking', {
+        p_user_id: memberId,
+        p_game_id: slot.gameId,
+        p_booking_date: format(slot.date, 'yyyy-MM-dd'),
+        p_time_slot: slot.time,
+        p_resource_id: slot.resourceId,
+        p_notes: notes.trim() || undefined,
+      });
+
+      const errorCode = error ? 'UNKNOWN' : data?.[0]?.error_code;
+      if (errorCode) {
+        if (error) console.error('Walk-in booking error:', error);
+        toast({
+          title: "Booking failed",
+          description: getBookingErrorMessage(errorCode),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const member = members.find(m => m.id === memberId);
+      toast({
+        title: "Walk-in booked",
+        description: `${slot.gameName} at ${slot.time} confirmed for ${member?.name}`,
+      });
+      onCreated();
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const matchingMembers = members
+    .filter(m => !query || m.name.toLowerCase().includes(query) || m.email.toLowerCase().includes(query))
+    .slice(0, 8);
+
+  return (
+    <Dialog open={!!slot} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Walk-in Booking</DialogTitle>
+          <DialogDescription>
+            {slot && `${slot.gameName}${slot.resourceName ? ` · ${slot.resourceName}` : ''} on ${format(slot.date, 'PPP')} at ${slot.time}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="walk-in-member">Member</Label>
+            <Input
+              id="walk-in-member"
+              placeholder="Search by name or email"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <div className="border rounded divide-y max-h-48 overflow-y-auto">
+              {matchingMembers.map((member) => (
+                <button
+                  key={member.id}
+                  type="button"
+                  className={cn(
+                    "w-full text-left px-3 py-2 text-sm hover:bg-gray-50",
+                    memberId === member.id && "bg-blue-50"
+                  )}
+                  onClick={() => setMemberId(member.id)}
+                >
+                  <span className="font-medium">{member.name}</span>
+                  <span className="text-gray-500 ml-2">{member.email}</span>
+                </button>
+              ))}
+              {matchingMembers.length === 0 && (
+                <p className="px-3 py-2 text-sm text-gray-500">No members found</p>
+              )}
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="walk-in-notes">Notes</Label>
+            <Textarea
+              id="walk-in-notes"
+              placeholder="Optional"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <Button className="w-full" onClick={createBooking} disabled={!memberId || isSubmitting}>
+            {isSubmitting ? 'Booking...' : 'Book and Confirm'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
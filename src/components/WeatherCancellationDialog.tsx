@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+import { closureCoversSlot } from '@/lib/closures';
+import { formatTimeSlot } from '@/lib/schedule';
+
+interface WeatherCancellationDialogProps {
+  game: {
+    id: string;
+    name: string;
+    slot_duration_minutes: number;
+  };
+  onDeclared: () => void;
+}
+
+interface AffectedBooking {
+  id: string;
+  resource_id: string;
+  time_slot: string;
+  status: string;
+  cost: number | null;
+  profiles: { name: string };
+}
+
+// Rains off part or all of a day for an outdoor game
+export const WeatherCancellationDialog: React.FC<WeatherCancellationDialogProps> = ({ game, onDeclared }) => {
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [reason, setReason] = useState('Rain');
+  const [bookings, setBookings] = useState<AffectedBooking[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setBookings([]);
+    if (open && date) {
+      fetchBookings();
+    }
+  }, [open, date]);
+
+  const fetchBookings = async () => {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('id, resource_id, time_slot, status, cost, profiles!bookings_user_id_fkey (name)')
+      .eq('game_id', game.id)
+      .eq('booking_date', date)
+      .in('status', ['pending', 'confirmed'])
+      .order('time_slot');
+
+    if (error) {
+      console.error('Error fetching affected bookings:', error);
+      return;
+    }
+
+    setBookings(data || []);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setDate(format(new Date(), 'yyyy-MM-dd'));
+      setStartTime('');
+      setEndTime('');
+      setReason('Rain');
+    }
+  };
+
+  const hasHours = !!startTime && !!endTime;
+  const affected = bookings.filter(booking =>
+    closureCoversSlot(
+      {
+        id: '',
+        game_id: game.id,
+        resource_id: null,
+        start_date: date,
+        end_date: date,
+        start_time: hasHours ? startTime : null,
+        end_time: hasHours ? endTime : null,
+        reason,
+      },
+      game.id,
+      booking.resource_id,
+      date,
+      formatTimeSlot(booking.time_slot),
+      game.slot_duration_minutes
+    )
+  );
+  const creditTotal = affected
+    .filter(b => b.status === 'confirmed')
+    .reduce((sum, b) => sum + (b.cost || 0), 0);
+
+  const declareCancellation = async () => {
+    if (!date) return;
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc('declare_weather_cancellation', {
+        p_game_id: game.id,
+        p_date: date,
+        p_start_time: startTime || undefined,
+        p_end_time: endTime || undefined,
+        p_reason: reason.trim() || undefined,
+      });
+
+      const errorCode = error ? 'UNKNOWN' : data?.find(r => r.error_code)?.error_code;
+      if (errorCode) {
+        if (error) console.error('Weather cancellation error:', error);
+        toast({
+          title: "Weather cancellation failed",
+          description: getBookingErrorMessage(errorCode),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: `${game.name} rained off`,
+        description: `${data?.length ?? 0} bookings canceled and members notified`,
+      });
+      setOpen(false);
+      onDeclared();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">Rain-off</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rain off {game.name}</DialogTitle>
+          <DialogDescription>
+            Closes the game for the washed-out hours, cancels the bookings inside them and credits
+            members for confirmed bookings. It does not count against their standing.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="weather-date">Date</Label>
+            <Input id="weather-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="weather-start">From</Label>
+              <Input id="weather-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="weather-end">To</Label>
+              <Input id="weather-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Leave the times empty to rain off the whole day</p>
+          <div>
+            <Label htmlFor="weather-reason">Reason</Label>
+            <Input id="weather-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+
+          <div className="p-3 border rounded-lg bg-gray-50 space-y-1">
+            {affected.length === 0 ? (
+              <p className="text-sm text-gray-500">No bookings are affected</p>
+            ) : (
+              <>
+                {affected.map((booking) => (
+                  <div key={booking.id} className="flex justify-between text-sm">
+                    <span>{booking.profiles.name}</span>
+                    <span className="text-gray-600">{formatTimeSlot(booking.time_slot)} · {booking.status}</span>
+                  </div>
+                ))}
+                {creditTotal > 0 && (
+                  <p className="text-xs text-gray-500 pt-1">₹{creditTotal} will be credited back</p>
+                )}
+              </>
+            )}
+          </div>
+
+          <Button
+            variant="destructive"
+            className="w-full"
+            onClick={declareCancellation}
+            disabled={!date || isSubmitting}
+          >
+            {isSubmitting ? 'Canceling...' : `Rain off and cancel ${affected.length} bookings`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -8,6 +8,16 @@ interface Profile {
   email: string;
   name: string;
   role: 'user' | 'admin';
+  phone?: string | null;
+  avatar_url?: string | null;
+}
+
+export interface ProfileChanges {
+  name?: string;
+  phone?: string | null;
+  avatar_url?: string | null;
+  notify_by_email?: boolean;
+  notify_by_sms?: boolean;
 }
 
 interface AuthContextType {
@@ -15,6 +25,10 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<boolean>;
   register: (email: string, password: string, name: string) => Promise<boolean>;
   logout: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<boolean>;
+  sendSignInCode: (email: string) => Promise<boolean>;
+  verifySignInCode: (email: string, code: string) => Promise<boolean>;
+  updateProfile: (changes: ProfileChanges) => Promise<boolean>;
   isLoading: boolean;
 }
 
@@ -103,7 +117,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 id: newProfile.id,
                 email: newProfile.email,
                 name: newProfile.name,
-                role: newProfile.role
+                role: newProfile.role,
+                phone: newProfile.phone,
+                avatar_url: newProfile.avatar_url
               });
               setIsLoading(false);
               return;
@@ -121,7 +137,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           id: profile.id,
           email: profile.email,
           name: profile.name,
-          role: profile.role
+          role: profile.role,
+          phone: profile.phone,
+          avatar_url: profile.avatar_url
         });
       } else {
         // If no profile was found but no error occurred, use the basic user object
@@ -232,15 +250,101 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const logout = async () => {
+    // Frees any court held mid-checkout while the session can still say whose it is
+    await supabase.rpc('release_slot_hold');
     await supabase.auth.signOut();
     setUser(null);
   };
 
+  // The emailed link signs the member in and lands on /reset-password
+  const requestPasswordReset = async (email: string): Promise<boolean> => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/reset-password`
+    });
+
+    if (error) {
+      console.error('Password reset error:', error);
+      return false;
+    }
+    return true;
+  };
+
+  // Emails a one-time code and a magic link; only existing accounts can sign in this way
+  const sendSignInCode = async (email: string): Promise<boolean> => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: `${window.location.origin}/login`
+      }
+    });
+
+    if (error) {
+      console.error('Sign-in code error:', error);
+      return false;
+    }
+    return true;
+  };
+
+  const verifySignInCode = async (email: string, code: string): Promise<boolean> => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' });
+
+      if (error) {
+        console.error('Sign-in code verification error:', error);
+        setIsLoading(false);
+        return false;
+      }
+
+      if (data.user) {
+        await fetchUserProfile(data.user);
+        return true;
+      }
+    } catch (error) {
+      console.error('Sign-in code verification error:', error);
+    }
+
+    setIsLoading(false);
+    return false;
+  };
+
+  // Saves the signed-in member's own profile and refreshes `user` in place
+  const updateProfile = async (changes: ProfileChanges): Promise<boolean> => {
+    if (!user) return false;
+
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .update(changes)
+      .eq('id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating profile:', error);
+      return false;
+    }
+
+    setUser({
+      id: profile.id,
+      email: profile.email,
+      name: profile.name,
+      role: profile.role,
+      phone: profile.phone,
+      avatar_url: profile.avatar_url
+    });
+    return true;
+  };
+
   const value = {
     user,
     login,
     register,
     logout,
+    requestPasswordReset,
+    sendSignInCode,
+    verifySignInCode,
+    updateProfile,
     isLoading
   };
 
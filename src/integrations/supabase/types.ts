@@ -9,44 +9,272 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      auto_approval_rules: {
+        Row: {
+          created_at: string | null
+          game_id: string
+          id: string
+          is_active: boolean
+          max_price: number | null
+          name: string
+          off_peak_only: boolean
+          requires_good_standing: boolean
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          game_id: string
+          id?: string
+          is_active?: boolean
+          max_price?: number | null
+          name: string
+          off_peak_only?: boolean
+          requires_good_standing?: boolean
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          game_id?: string
+          id?: string
+          is_active?: boolean
+          max_price?: number | null
+          name?: string
+          off_peak_only?: boolean
+          requires_good_standing?: boolean
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auto_approval_rules_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_events: {
+        Row: {
+          actor_id: string | null
+          booking_id: string
+          created_at: string | null
+          id: string
+          new_cost: number | null
+          new_status: Database["public"]["Enums"]["booking_status"] | null
+          note: string | null
+          old_cost: number | null
+          old_status: Database["public"]["Enums"]["booking_status"] | null
+        }
+        Insert: {
+          actor_id?: string | null
+          booking_id: string
+          created_at?: string | null
+          id?: string
+          new_cost?: number | null
+          new_status?: Database["public"]["Enums"]["booking_status"] | null
+          note?: string | null
+          old_cost?: number | null
+          old_status?: Database["public"]["Enums"]["booking_status"] | null
+        }
+        Update: {
+          actor_id?: string | null
+          booking_id?: string
+          created_at?: string | null
+          id?: string
+          new_cost?: number | null
+          new_status?: Database["public"]["Enums"]["booking_status"] | null
+          note?: string | null
+          old_cost?: number | null
+          old_status?: Database["public"]["Enums"]["booking_status"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_events_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_quotas: {
+        Row: {
+          created_at: string | null
+          game_id: string
+          id: string
+          max_active_bookings: number | null
+          max_bookings_per_day: number | null
+          max_hours_per_week: number | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          game_id: string
+          id?: string
+          max_active_bookings?: number | null
+          max_bookings_per_day?: number | null
+          max_hours_per_week?: number | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          game_id?: string
+          id?: string
+          max_active_bookings?: number | null
+          max_bookings_per_day?: number | null
+          max_hours_per_week?: number | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_quotas_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_series: {
+        Row: {
+          created_at: string | null
+          game_id: string
+          id: string
+          occurrences: number
+          start_date: string
+          time_slot: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          game_id: string
+          id?: string
+          occurrences: number
+          start_date: string
+          time_slot: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          game_id?: string
+          id?: string
+          occurrences?: number
+          start_date?: string
+          time_slot?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_series_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_series_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
+          auto_approval_rule_id: string | null
           booking_date: string
+          canceled_at: string | null
+          cancellation_reason: Database["public"]["Enums"]["cancellation_reason"] | null
+          checked_in_at: string | null
+          checked_in_by: string | null
           cost: number | null
           created_at: string | null
           game_id: string
           id: string
           notes: string | null
+          price_override_reason: string | null
+          quoted_price: number | null
+          rebooked_from_id: string | null
+          resource_id: string
+          series_id: string | null
           status: Database["public"]["Enums"]["booking_status"] | null
           time_slot: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          auto_approval_rule_id?: string | null
           booking_date: string
+          canceled_at?: string | null
+          cancellation_reason?: Database["public"]["Enums"]["cancellation_reason"] | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           cost?: number | null
           created_at?: string | null
           game_id: string
           id?: string
           notes?: string | null
+          price_override_reason?: string | null
+          quoted_price?: number | null
+          rebooked_from_id?: string | null
+          resource_id?: string
+          series_id?: string | null
           status?: Database["public"]["Enums"]["booking_status"] | null
           time_slot: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          auto_approval_rule_id?: string | null
           booking_date?: string
+          canceled_at?: string | null
+          cancellation_reason?: Database["public"]["Enums"]["cancellation_reason"] | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           cost?: number | null
           created_at?: string | null
           game_id?: string
           id?: string
           notes?: string | null
+          price_override_reason?: string | null
+          quoted_price?: number | null
+          rebooked_from_id?: string | null
+          resource_id?: string
+          series_id?: string | null
           status?: Database["public"]["Enums"]["booking_status"] | null
           time_slot?: string
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "bookings_auto_approval_rule_id_fkey"
+            columns: ["auto_approval_rule_id"]
+            isOneToOne: false
+            referencedRelation: "auto_approval_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_checked_in_by_fkey"
+            columns: ["checked_in_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bookings_game_id_fkey"
             columns: ["game_id"]
@@ -54,6 +282,27 @@ export type Database = {
             referencedRelation: "games"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bookings_rebooked_from_id_fkey"
+            columns: ["rebooked_from_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "game_resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "booking_series"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bookings_user_id_fkey"
             columns: ["user_id"]
@@ -63,70 +312,1036 @@ export type Database = {
           },
         ]
       }
-      games: {
+      check_in_keys: {
         Row: {
           created_at: string | null
-          description: string | null
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
+      game_closures: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          end_date: string
+          end_time: string | null
+          game_id: string | null
           id: string
-          is_active: boolean | null
+          is_weather: boolean
+          reason: string
+          resource_id: string | null
+          start_date: string
+          start_time: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          end_date: string
+          end_time?: string | null
+          game_id?: string | null
+          id?: string
+          is_weather?: boolean
+          reason: string
+          resource_id?: string | null
+          start_date: string
+          start_time?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          end_date?: string
+          end_time?: string | null
+          game_id?: string | null
+          id?: string
+          is_weather?: boolean
+          reason?: string
+          resource_id?: string | null
+          start_date?: string
+          start_time?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_closures_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_closures_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_closures_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "game_resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_operating_hours: {
+        Row: {
+          closes_at: string
+          created_at: string | null
+          game_id: string
+          id: string
+          opens_at: string
+          updated_at: string | null
+          weekday: number
+        }
+        Insert: {
+          closes_at: string
+          created_at?: string | null
+          game_id: string
+          id?: string
+          opens_at: string
+          updated_at?: string | null
+          weekday: number
+        }
+        Update: {
+          closes_at?: string
+          created_at?: string | null
+          game_id?: string
+          id?: string
+          opens_at?: string
+          updated_at?: string | null
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_operating_hours_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_resources: {
+        Row: {
+          created_at: string | null
+          game_id: string
+          id: string
+          is_active: boolean
           name: string
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
-          description?: string | null
+          game_id: string
           id?: string
-          is_active?: boolean | null
+          is_active?: boolean
           name: string
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
-          description?: string | null
+          game_id?: string
           id?: string
-          is_active?: boolean | null
+          is_active?: boolean
           name?: string
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "game_resources_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      games: {
         Row: {
+          booking_release_time: string | null
+          booking_window_days: number
+          buffer_minutes: number
+          change_cutoff_hours: number
           created_at: string | null
-          email: string
+          description: string | null
+          free_cancellation_hours: number
+          guest_hourly_rate: number | null
+          hourly_rate: number
           id: string
+          is_active: boolean | null
+          is_outdoor: boolean
+          min_lead_minutes: number
           name: string
-          role: Database["public"]["Enums"]["user_role"]
+          no_show_grace_minutes: number
+          pending_cutoff_hours: number
+          pending_expiry_hours: number
+          slot_duration_minutes: number
           updated_at: string | null
         }
         Insert: {
+          booking_release_time?: string | null
+          booking_window_days?: number
+          buffer_minutes?: number
+          change_cutoff_hours?: number
           created_at?: string | null
-          email: string
-          id: string
+          description?: string | null
+          free_cancellation_hours?: number
+          guest_hourly_rate?: number | null
+          hourly_rate?: number
+          id?: string
+          is_active?: boolean | null
+          is_outdoor?: boolean
+          min_lead_minutes?: number
           name: string
-          role?: Database["public"]["Enums"]["user_role"]
+          no_show_grace_minutes?: number
+          pending_cutoff_hours?: number
+          pending_expiry_hours?: number
+          slot_duration_minutes?: number
           updated_at?: string | null
         }
         Update: {
+          booking_release_time?: string | null
+          booking_window_days?: number
+          buffer_minutes?: number
+          change_cutoff_hours?: number
           created_at?: string | null
-          email?: string
+          description?: string | null
+          free_cancellation_hours?: number
+          guest_hourly_rate?: number | null
+          hourly_rate?: number
           id?: string
+          is_active?: boolean | null
+          is_outdoor?: boolean
+          min_lead_minutes?: number
           name?: string
-          role?: Database["public"]["Enums"]["user_role"]
+          no_show_grace_minutes?: number
+          pending_cutoff_hours?: number
+          pending_expiry_hours?: number
+          slot_duration_minutes?: number
           updated_at?: string | null
         }
         Relationships: []
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      member_credits: {
+        Row: {
+          amount: number
+          booking_id: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          reason: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          booking_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          reason: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          reason?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "member_credits_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_credits_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_credits_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string
+          booking_id: string | null
+          created_at: string | null
+          id: string
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          booking_id?: string | null
+          created_at?: string | null
+          id?: string
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          booking_id?: string | null
+          created_at?: string | null
+          id?: string
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_rules: {
+        Row: {
+          created_at: string | null
+          ends_at: string | null
+          game_id: string
+          id: string
+          is_active: boolean
+          min_duration_minutes: number | null
+          multiplier: number
+          name: string
+          rule_type: Database["public"]["Enums"]["pricing_rule_type"]
+          starts_at: string | null
+          updated_at: string | null
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string | null
+          ends_at?: string | null
+          game_id: string
+          id?: string
+          is_active?: boolean
+          min_duration_minutes?: number | null
+          multiplier: number
+          name: string
+          rule_type: Database["public"]["Enums"]["pricing_rule_type"]
+          starts_at?: string | null
+          updated_at?: string | null
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string | null
+          ends_at?: string | null
+          game_id?: string
+          id?: string
+          is_active?: boolean
+          min_duration_minutes?: number | null
+          multiplier?: number
+          name?: string
+          rule_type?: Database["public"]["Enums"]["pricing_rule_type"]
+          starts_at?: string | null
+          updated_at?: string | null
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_rules_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          email: string
+          id: string
+          membership_type: Database["public"]["Enums"]["membership_type"]
+          name: string
+          notify_by_email: boolean
+          notify_by_sms: boolean
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          search_vector: unknown
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email: string
+          id: string
+          membership_type?: Database["public"]["Enums"]["membership_type"]
+          name: string
+          notify_by_email?: boolean
+          notify_by_sms?: boolean
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          search_vector?: never
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email?: string
+          id?: string
+          membership_type?: Database["public"]["Enums"]["membership_type"]
+          name?: string
+          notify_by_email?: boolean
+          notify_by_sms?: boolean
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          search_vector?: never
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      slot_changes: {
+        Row: {
+          booking_date: string
+          created_at: string | null
+          game_id: string
+          id: number
+          time_slot: string
+        }
+        Insert: {
+          booking_date: string
+          created_at?: string | null
+          game_id: string
+          id?: number
+          time_slot: string
+        }
+        Update: {
+          booking_date?: string
+          created_at?: string | null
+          game_id?: string
+          id?: number
+          time_slot?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "slot_changes_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      slot_holds: {
+        Row: {
+          booking_date: string
+          created_at: string | null
+          expires_at: string
+          game_id: string
+          id: string
+          resource_id: string
+          time_slot: string
+          user_id: string
+        }
+        Insert: {
+          booking_date: string
+          created_at?: string | null
+          expires_at: string
+          game_id: string
+          id?: string
+          resource_id: string
+          time_slot: string
+          user_id: string
+        }
+        Update: {
+          booking_date?: string
+          created_at?: string | null
+          expires_at?: string
+          game_id?: string
+          id?: string
+          resource_id?: string
+          time_slot?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "slot_holds_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "slot_holds_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "game_resources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "slot_holds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      standing_policy: {
+        Row: {
+          approval_points: number
+          created_at: string | null
+          id: boolean
+          late_cancellation_points: number
+          no_show_points: number
+          suspension_days: number
+          suspension_points: number
+          updated_at: string | null
+          warning_points: number
+          window_days: number
+        }
+        Insert: {
+          approval_points?: number
+          created_at?: string | null
+          id?: boolean
+          late_cancellation_points?: number
+          no_show_points?: number
+          suspension_days?: number
+          suspension_points?: number
+          updated_at?: string | null
+          warning_points?: number
+          window_days?: number
+        }
+        Update: {
+          approval_points?: number
+          created_at?: string | null
+          id?: boolean
+          late_cancellation_points?: number
+          no_show_points?: number
+          suspension_days?: number
+          suspension_points?: number
+          updated_at?: string | null
+          warning_points?: number
+          window_days?: number
+        }
+        Relationships: []
+      }
+      waitlist_entries: {
+        Row: {
+          booking_date: string
+          booking_id: string | null
+          created_at: string | null
+          game_id: string
+          id: string
+          status: Database["public"]["Enums"]["waitlist_status"]
+          time_slot: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          booking_date: string
+          booking_id?: string | null
+          created_at?: string | null
+          game_id: string
+          id?: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          time_slot: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          booking_date?: string
+          booking_id?: string | null
+          created_at?: string | null
+          game_id?: string
+          id?: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          time_slot?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      admin_booking_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          total_bookings: number
+          pending_bookings: number
+          confirmed_bookings: number
+          total_revenue: number
+        }[]
+      }
+      booking_change_error: {
+        Args: { p_booking: Database["public"]["Tables"]["bookings"]["Row"] }
+        Returns: string
+      }
+      booking_check_in_token: {
+        Args: { p_booking_id: string }
+        Returns: string
+      }
+      booking_quota_error: {
+        Args: {
+          p_user_id: string
+          p_game_id: string
+          p_date: string
+          p_time: string
+          p_exclude_booking_id?: string
+          p_series_id?: string
+        }
+        Returns: string
+      }
+      booking_quota_usage: {
+        Args: {
+          p_user_id: string
+          p_game_id: string
+          p_date: string
+          p_exclude_booking_id?: string
+          p_series_id?: string
+        }
+        Returns: {
+          max_active_bookings: number
+          active_bookings: number
+          max_hours_per_week: number
+          week_minutes: number
+          max_bookings_per_day: number
+          day_bookings: number
+        }[]
+      }
+      booking_slot_error: {
+        Args: {
+          p_user_id: string
+          p_game_id: string
+          p_date: string
+          p_time: string
+          p_exclude_booking_id?: string
+          p_series_id?: string
+          p_series_start?: string
+          p_walk_in?: boolean
+        }
+        Returns: string
+      }
+      booking_starts_at: {
+        Args: { p_date: string; p_time: string }
+        Returns: string
+      }
+      booking_window_error: {
+        Args: {
+          p_game_id: string
+          p_date: string
+          p_time: string
+          p_window_date?: string
+        }
+        Returns: string
+      }
+      bulk_update_bookings: {
+        Args: {
+          p_booking_ids: string[]
+          p_action: string
+          p_cost?: number
+          p_override_reason?: string
+        }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      cancel_booking: {
+        Args: { p_booking_id: string }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      cancel_booking_series: {
+        Args: { p_series_id: string }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      cancel_closure_bookings: {
+        Args: { p_closure_id: string }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      check_in_booking: {
+        Args: { p_token: string }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      closure_clashes: {
+        Args: { p_closure_id: string }
+        Returns: {
+          booking_id: string
+          member_name: string
+          game_name: string
+          resource_name: string
+          booking_date: string
+          time_slot: string
+          status: Database["public"]["Enums"]["booking_status"]
+        }[]
+      }
+      closure_covers_slot: {
+        Args: {
+          p_closure: Database["public"]["Tables"]["game_closures"]["Row"]
+          p_game_id: string
+          p_resource_id: string
+          p_date: string
+          p_time: string
+        }
+        Returns: boolean
+      }
+      compute_booking_price: {
+        Args: { p_game_id: string; p_date: string; p_time: string; p_user_id: string }
+        Returns: number
+      }
+      compute_member_standing: {
+        Args: { p_user_id: string }
+        Returns: {
+          standing: string
+          points: number
+          no_shows: number
+          late_cancellations: number
+          suspended_until: string
+        }[]
+      }
+      create_booking: {
+        Args: {
+          p_game_id: string
+          p_booking_date: string
+          p_time_slot: string
+          p_resource_id?: string
+          p_notes?: string
+        }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      create_booking_series: {
+        Args: {
+          p_game_id: string
+          p_start_date: string
+          p_time_slot: string
+          p_occurrences: number
+        }
+        Returns: {
+          booking_date: string
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      create_walk_in_booking: {
+        Args: {
+          p_user_id: string
+          p_game_id: string
+          p_booking_date: string
+          p_time_slot: string
+          p_resource_id?: string
+          p_notes?: string
+        }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      declare_weather_cancellation: {
+        Args: {
+          p_game_id: string
+          p_date: string
+          p_start_time?: string
+          p_end_time?: string
+          p_reason?: string
+        }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      expire_pending_bookings: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      game_time_slots: {
+        Args: { p_game_id: string; p_date: string }
+        Returns: string[]
+      }
+      hold_slot: {
+        Args: {
+          p_game_id: string
+          p_booking_date: string
+          p_time_slot: string
+          p_resource_id?: string
+        }
+        Returns: {
+          expires_at: string
+          error_code: string
+        }[]
+      }
+      insert_booking: {
+        Args: {
+          p_user_id: string
+          p_game_id: string
+          p_booking_date: string
+          p_time_slot: string
+          p_resource_id?: string
+          p_notes?: string
+          p_series_id?: string
+          p_walk_in?: boolean
+        }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_peak_slot: {
+        Args: {
+          p_game_id: string
+          p_date: string
+          p_time: string
+        }
+        Returns: boolean
+      }
+      join_waitlist: {
+        Args: { p_game_id: string; p_booking_date: string; p_time_slot: string }
+        Returns: {
+          entry_id: string
+          error_code: string
+        }[]
+      }
+      leave_waitlist: {
+        Args: { p_entry_id: string }
+        Returns: {
+          entry_id: string
+          error_code: string
+        }[]
+      }
+      mark_no_shows: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      mark_notifications_read: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      member_in_good_standing: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      member_standing: {
+        Args: { p_user_id: string }
+        Returns: {
+          standing: string
+          points: number
+          no_shows: number
+          late_cancellations: number
+          suspended_until: string
+        }[]
+      }
+      my_booking_events: {
+        Args: { p_booking_id: string }
+        Returns: {
+          created_at: string
+          old_status: Database["public"]["Enums"]["booking_status"]
+          new_status: Database["public"]["Enums"]["booking_status"]
+          old_cost: number
+          new_cost: number
+          by_member: boolean
+        }[]
+      }
+      my_booking_quota: {
+        Args: {
+          p_game_id: string
+          p_date: string
+        }
+        Returns: {
+          max_active_bookings: number
+          active_bookings: number
+          max_hours_per_week: number
+          week_minutes: number
+          max_bookings_per_day: number
+          day_bookings: number
+        }[]
+      }
+      my_rained_off_bookings: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          booking_id: string
+          game_id: string
+          game_name: string
+          booking_date: string
+          time_slot: string
+          canceled_at: string
+        }[]
+      }
+      my_waitlist: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          game_id: string
+          game_name: string
+          booking_date: string
+          time_slot: string
+          queue_position: number
+        }[]
+      }
+      next_free_slots: {
+        Args: { p_game_id: string; p_limit?: number }
+        Returns: {
+          booking_date: string
+          time_slot: string
+        }[]
+      }
+      preview_booking_series: {
+        Args: {
+          p_game_id: string
+          p_start_date: string
+          p_time_slot: string
+          p_occurrences: number
+        }
+        Returns: {
+          booking_date: string
+          error_code: string
+        }[]
+      }
+      promote_waitlist: {
+        Args: { p_game_id: string; p_booking_date: string; p_time_slot: string }
+        Returns: undefined
+      }
+      quote_booking_price: {
+        Args: { p_game_id: string; p_date: string; p_time: string }
+        Returns: number
+      }
+      rebook_rained_off_booking: {
+        Args: {
+          p_booking_id: string
+          p_booking_date: string
+          p_time_slot: string
+        }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      release_slot_hold: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      reschedule_booking: {
+        Args: {
+          p_booking_id: string
+          p_booking_date: string
+          p_time_slot: string
+          p_resource_id?: string
+        }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      reschedule_booking_series: {
+        Args: { p_series_id: string; p_time_slot: string }
+        Returns: {
+          booking_id: string
+          error_code: string
+        }[]
+      }
+      sign_booking_token: {
+        Args: { p_booking_id: string }
+        Returns: string
+      }
+      slot_availability: {
+        Args: { p_game_id: string; p_date: string }
+        Returns: {
+          time_slot: string
+          total_resources: number
+          free_resource_ids: string[]
+          closure_reason: string
+        }[]
+      }
+      slot_closure_reason: {
+        Args: {
+          p_game_id: string
+          p_resource_id: string
+          p_date: string
+          p_time: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      booking_status: "pending" | "confirmed" | "canceled" | "no-show"
+      booking_status: "pending" | "confirmed" | "canceled" | "no-show" | "expired"
+      cancellation_reason: "member" | "member_late" | "admin" | "weather"
+      membership_type: "member" | "guest"
+      pricing_rule_type: "peak" | "duration"
       user_role: "user" | "admin"
+      waitlist_status: "waiting" | "promoted" | "left" | "expired"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -242,8 +1457,12 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      booking_status: ["pending", "confirmed", "canceled", "no-show"],
+      booking_status: ["pending", "confirmed", "canceled", "no-show", "expired"],
+      cancellation_reason: ["member", "member_late", "admin", "weather"],
+      membership_type: ["member", "guest"],
+      pricing_rule_type: ["peak", "duration"],
       user_role: ["user", "admin"],
+      waitlist_status: ["waiting", "promoted", "left", "expired"],
     },
   },
 } as const
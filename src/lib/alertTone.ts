@@ -0,0 +1,24 @@
+const CHIME_FREQUENCIES = [880, 1320];
+const NOTE_SECONDS = 0.3;
+
+// Two-note chime for new booking requests. Browsers block audio until the page
+// has been interacted with, so a silent failure here is expected.
+export const playAlertTone = () => {
+  try {
+    const context = new AudioContext();
+    CHIME_FREQUENCIES.forEach((frequency, i) => {
+      const start = context.currentTime + i * NOTE_SECONDS / 2;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + NOTE_SECONDS);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + NOTE_SECONDS);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.error('Error playing alert tone:', error);
+  }
+};
@@ -0,0 +1,80 @@
+// Error codes returned by the booking functions in the database
+export type BookingErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'GAME_NOT_FOUND'
+  | 'GAME_INACTIVE'
+  | 'INVALID_SLOT'
+  | 'SLOT_CLOSED'
+  | 'SLOT_IN_PAST'
+  | 'OUTSIDE_BOOKING_WINDOW'
+  | 'LEAD_TIME_NOT_MET'
+  | 'QUOTA_EXCEEDED'
+  | 'WEEKLY_HOURS_EXCEEDED'
+  | 'DAILY_LIMIT_EXCEEDED'
+  | 'SLOT_FULL'
+  | 'RESOURCE_UNAVAILABLE'
+  | 'BOOKING_NOT_FOUND'
+  | 'BOOKING_NOT_CHANGEABLE'
+  | 'CHANGE_CUTOFF_PASSED'
+  | 'INVALID_SERIES'
+  | 'SLOT_AVAILABLE'
+  | 'ALREADY_BOOKED'
+  | 'ALREADY_WAITLISTED'
+  | 'WAITLIST_ENTRY_NOT_FOUND'
+  | 'NOT_AUTHORIZED'
+  | 'MEMBER_NOT_FOUND'
+  | 'CLOSURE_NOT_FOUND'
+  | 'GAME_NOT_OUTDOOR'
+  | 'INVALID_TIME_RANGE'
+  | 'ALREADY_REBOOKED'
+  | 'INVALID_CHECK_IN_CODE'
+  | 'ALREADY_CHECKED_IN'
+  | 'BOOKING_NOT_CONFIRMED'
+  | 'BOOKING_NOT_STARTED'
+  | 'NOT_BOOKING_DAY'
+  | 'MEMBER_SUSPENDED'
+  | 'INVALID_BULK_ACTION'
+  | 'BOOKING_NOT_PENDING'
+  | 'OVERRIDE_REASON_REQUIRED';
+
+const bookingErrorMessages: Record<BookingErrorCode, string> = {
+  NOT_AUTHENTICATED: 'Your session has expired. Please log in again.',
+  GAME_NOT_FOUND: 'This game no longer exists.',
+  GAME_INACTIVE: 'This game is currently not available for booking.',
+  INVALID_SLOT: 'This time is not part of the game schedule.',
+  SLOT_CLOSED: 'The club is closed at this time. Please pick another slot.',
+  SLOT_IN_PAST: 'This slot has already started. Please pick a later time.',
+  OUTSIDE_BOOKING_WINDOW: 'Bookings for this date are not open yet.',
+  LEAD_TIME_NOT_MET: 'This slot starts too soon to be booked. Please pick a later time.',
+  QUOTA_EXCEEDED: 'You have reached the maximum number of upcoming bookings for this game.',
+  WEEKLY_HOURS_EXCEEDED: 'This booking would take you over your weekly hours for this game.',
+  DAILY_LIMIT_EXCEEDED: 'You have reached the maximum number of bookings for this game on this day.',
+  SLOT_FULL: 'This slot was just taken. Please choose another time.',
+  RESOURCE_UNAVAILABLE: 'The selected court is no longer free. Pick another court or let us assign one.',
+  BOOKING_NOT_FOUND: 'This booking could not be found.',
+  BOOKING_NOT_CHANGEABLE: 'Only pending or confirmed bookings can be changed.',
+  CHANGE_CUTOFF_PASSED: 'It is too close to the start time to change this booking.',
+  INVALID_SERIES: 'A weekly booking must repeat between 2 and 12 times.',
+  SLOT_AVAILABLE: 'A court just freed up in this slot. Book it directly instead.',
+  ALREADY_BOOKED: 'You already have a booking in this slot.',
+  ALREADY_WAITLISTED: 'You are already on the waitlist for this slot.',
+  WAITLIST_ENTRY_NOT_FOUND: 'This waitlist entry no longer exists.',
+  NOT_AUTHORIZED: 'Only admins can do this.',
+  MEMBER_NOT_FOUND: 'This member could not be found.',
+  CLOSURE_NOT_FOUND: 'This closure no longer exists.',
+  GAME_NOT_OUTDOOR: 'Only outdoor games can be rained off.',
+  INVALID_TIME_RANGE: 'Enter both a start and an end time, with the end after the start.',
+  ALREADY_REBOOKED: 'You have already rebooked this session.',
+  INVALID_CHECK_IN_CODE: 'This check-in code is not valid.',
+  ALREADY_CHECKED_IN: 'This booking has already been checked in.',
+  BOOKING_NOT_CONFIRMED: 'Only confirmed bookings can be checked in or marked as no-shows.',
+  BOOKING_NOT_STARTED: 'A booking can only be marked as a no-show once it has started.',
+  NOT_BOOKING_DAY: 'This booking is for a different day.',
+  MEMBER_SUSPENDED: 'Booking is suspended on your account after repeated no-shows and late cancellations.',
+  INVALID_BULK_ACTION: 'This action cannot be applied to the selected bookings.',
+  BOOKING_NOT_PENDING: 'Only pending bookings can be confirmed.',
+  OVERRIDE_REASON_REQUIRED: 'A reason is required where the price differs from the computed price.',
+};
+
+export const getBookingErrorMessage = (code: string) =>
+  bookingErrorMessages[code as BookingErrorCode] || 'Something went wrong. Please try again.';
@@ -0,0 +1,49 @@
+import { formatTimeSlot, toMinutes } from '@/lib/schedule';
+
+export interface BookingWindow {
+  booking_window_days: number;
+  booking_release_time: string | null;
+  min_lead_minutes: number;
+}
+
+export interface CancellationPolicy {
+  free_cancellation_hours: number;
+  change_cutoff_hours: number;
+}
+
+interface BookingSlot {
+  booking_date: string;
+  time_slot: string;
+  status: string;
+}
+
+export const getBookingStart = (date: string, time: string) =>
+  new Date(`${date}T${formatTimeSlot(time)}`);
+
+const hoursUntilStart = (booking: BookingSlot) =>
+  (getBookingStart(booking.booking_date, booking.time_slot).getTime() - Date.now()) / (60 * 60 * 1000);
+
+// Client-side hint only; cancel_booking and reschedule_booking enforce the same rules
+export const canChangeBooking = (booking: BookingSlot, policy: CancellationPolicy) =>
+  ['pending', 'confirmed'].includes(booking.status) && hoursUntilStart(booking) > policy.change_cutoff_hours;
+
+export const isLateCancellation = (booking: BookingSlot, policy: CancellationPolicy) =>
+  hoursUntilStart(booking) <= policy.free_cancellation_hours;
+
+// Client-side hint only; booking_window_error enforces the same rules
+export const getLastBookableDate = (bookingWindow: BookingWindow) => {
+  const now = new Date();
+  const last = new Date(now);
+  last.setHours(0, 0, 0, 0);
+  last.setDate(last.getDate() + bookingWindow.booking_window_days);
+
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  if (bookingWindow.booking_release_time && nowMinutes < toMinutes(bookingWindow.booking_release_time)) {
+    last.setDate(last.getDate() - 1);
+  }
+
+  return last;
+};
+
+export const isWithinLeadTime = (date: string, time: string, bookingWindow: BookingWindow) =>
+  getBookingStart(date, time).getTime() - Date.now() <= bookingWindow.min_lead_minutes * 60 * 1000;
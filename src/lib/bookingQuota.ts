@@ -0,0 +1,30 @@
+// Usage row returned by the my_booking_quota function; a null limit means unlimited
+export interface BookingQuotaUsage {
+  max_active_bookings: number | null;
+  active_bookings: number;
+  max_hours_per_week: number | null;
+  week_minutes: number;
+  max_bookings_per_day: number | null;
+  day_bookings: number;
+}
+
+const formatHours = (hours: number) => (Number.isInteger(hours) ? String(hours) : hours.toFixed(1));
+
+export const describeQuotaUsage = (usage: BookingQuotaUsage, gameName: string): string[] => {
+  const lines: string[] = [];
+
+  if (usage.max_active_bookings != null) {
+    const left = Math.max(usage.max_active_bookings - usage.active_bookings, 0);
+    lines.push(`You have ${left} of ${usage.max_active_bookings} upcoming ${gameName} bookings left`);
+  }
+  if (usage.max_hours_per_week != null) {
+    const left = Math.max(usage.max_hours_per_week - usage.week_minutes / 60, 0);
+    lines.push(`You have ${formatHours(left)} of ${usage.max_hours_per_week} weekly ${gameName} hours left`);
+  }
+  if (usage.max_bookings_per_day != null) {
+    const left = Math.max(usage.max_bookings_per_day - usage.day_bookings, 0);
+    lines.push(`You have ${left} of ${usage.max_bookings_per_day} ${gameName} bookings left on this day`);
+  }
+
+  return lines;
+};
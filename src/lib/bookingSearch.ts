@@ -0,0 +1,69 @@
+// Admin bookings table view: filters, sort and page, kept in the URL query so a
+// view can be bookmarked and shared
+export const BOOKINGS_PAGE_SIZE = 25;
+
+export type BookingSortKey = 'created_at' | 'booking_date' | 'member' | 'game' | 'status';
+
+export interface BookingFilters {
+  search: string;
+  status: string;
+  gameId: string;
+  from: string;
+  to: string;
+  sort: BookingSortKey;
+  ascending: boolean;
+  page: number;
+}
+
+// PostgREST order keys; member and game sort by the embedded to-one row
+export const BOOKING_SORT_COLUMNS: Record<BookingSortKey, string> = {
+  created_at: 'created_at',
+  booking_date: 'booking_date',
+  member: 'profiles(name)',
+  game: 'games(name)',
+  status: 'status',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const readBookingFilters = (params: URLSearchParams): BookingFilters => {
+  const sort = params.get('sort') as BookingSortKey;
+  const page = parseInt(params.get('page') ?? '', 10);
+  const from = params.get('from') ?? '';
+  const to = params.get('to') ?? '';
+
+  return {
+    search: params.get('q') ?? '',
+    status: params.get('status') || 'all',
+    gameId: params.get('game') || 'all',
+    from: DATE_PATTERN.test(from) ? from : '',
+    to: DATE_PATTERN.test(to) ? to : '',
+    sort: Object.prototype.hasOwnProperty.call(BOOKING_SORT_COLUMNS, sort) ? sort : 'created_at',
+    ascending: params.get('dir') === 'asc',
+    page: page > 0 ? page : 1,
+  };
+};
+
+// Defaults are left out so a plain /admin link stays plain
+export const writeBookingFilters = (filters: BookingFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.search.trim()) params.set('q', filters.search.trim());
+  if (filters.status !== 'all') params.set('status', filters.status);
+  if (filters.gameId !== 'all') params.set('game', filters.gameId);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.sort !== 'created_at') params.set('sort', filters.sort);
+  if (filters.ascending) params.set('dir', 'asc');
+  if (filters.page > 1) params.set('page', String(filters.page));
+  return params;
+};
+
+// Every word must match the start of a name or email part, so "pri sha" finds
+// Priya Sharma. Operator characters are dropped so input can't break the query.
+export const toPrefixSearchQuery = (search: string) =>
+  search
+    .split(/\s+/)
+    .map(word => word.replace(/[^\p{L}\p{N}@.]/gu, ''))
+    .filter(word => /[\p{L}\p{N}]/u.test(word))
+    .map(word => `${word}:*`)
+    .join(' & ');
@@ -0,0 +1,41 @@
+import { format } from 'date-fns';
+import { formatTimeSlot, toMinutes } from '@/lib/schedule';
+
+export interface Closure {
+  id: string;
+  game_id: string | null;
+  resource_id: string | null;
+  start_date: string;
+  end_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  reason: string;
+}
+
+// Mirrors public.closure_covers_slot; dates are 'yyyy-MM-dd' so they compare as strings
+export const closureCoversSlot = (
+  closure: Closure,
+  gameId: string,
+  resourceId: string | null,
+  date: string,
+  time: string,
+  durationMinutes: number
+) => {
+  if (closure.game_id && closure.game_id !== gameId) return false;
+  if (closure.resource_id && closure.resource_id !== resourceId) return false;
+  if (date < closure.start_date || date > closure.end_date) return false;
+  if (!closure.start_time || !closure.end_time) return true;
+
+  const start = toMinutes(time);
+  return start < toMinutes(closure.end_time) && start + durationMinutes > toMinutes(closure.start_time);
+};
+
+export const describeClosureDates = (closure: Closure) => {
+  const startDate = format(new Date(closure.start_date), 'd MMM yyyy');
+  const dates = closure.start_date === closure.end_date
+    ? startDate
+    : `${startDate} to ${format(new Date(closure.end_date), 'd MMM yyyy')}`;
+  return closure.start_time && closure.end_time
+    ? `${dates}, ${formatTimeSlot(closure.start_time)} – ${formatTimeSlot(closure.end_time)}`
+    : `${dates}, all day`;
+};
@@ -0,0 +1,48 @@
+export const WEEKDAYS = [
+  'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'
+];
+
+export interface OperatingHours {
+  weekday: number;
+  opens_at: string;
+  closes_at: string;
+}
+
+export interface GameSchedule {
+  slot_duration_minutes: number;
+  buffer_minutes: number;
+  game_operating_hours: OperatingHours[];
+}
+
+// Postgres TIME columns come back as 'HH:mm:ss'; the UI works with 'HH:mm'
+export const formatTimeSlot = (time: string) => time.slice(0, 5);
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (total: number) => {
+  const hours = Math.floor(total / 60).toString().padStart(2, '0');
+  const minutes = (total % 60).toString().padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+// Mirrors public.game_time_slots so the grid matches what the database accepts
+export const generateTimeSlots = (schedule: GameSchedule, date: Date): string[] => {
+  const hours = schedule.game_operating_hours.find(h => h.weekday === date.getDay());
+  if (!hours) return [];
+
+  const slots: string[] = [];
+  const step = schedule.slot_duration_minutes + schedule.buffer_minutes;
+  const lastStart = toMinutes(hours.closes_at) - schedule.slot_duration_minutes;
+
+  for (let start = toMinutes(hours.opens_at); start <= lastStart; start += step) {
+    slots.push(fromMinutes(start));
+  }
+
+  return slots;
+};
+
+export const formatSlotRange = (time: string, durationMinutes: number) =>
+  `${formatTimeSlot(time)} – ${fromMinutes(toMinutes(time) + durationMinutes)}`;
@@ -0,0 +1,61 @@
+import { format } from 'date-fns';
+
+export type StandingLevel = 'good' | 'warning' | 'approval' | 'suspended';
+
+// Row returned by the member_standing function
+export interface MemberStanding {
+  standing: string;
+  points: number;
+  no_shows: number;
+  late_cancellations: number;
+  suspended_until: string | null;
+}
+
+export interface StandingPolicy {
+  window_days: number;
+  no_show_points: number;
+  late_cancellation_points: number;
+  warning_points: number;
+  approval_points: number;
+  suspension_points: number;
+  suspension_days: number;
+}
+
+export const standingLabels: Record<StandingLevel, string> = {
+  good: 'Good standing',
+  warning: 'Warning',
+  approval: 'Needs approval',
+  suspended: 'Suspended',
+};
+
+export const getStandingColor = (standing: string) => {
+  switch (standing) {
+    case 'good': return 'bg-green-100 text-green-800';
+    case 'warning': return 'bg-yellow-100 text-yellow-800';
+    case 'approval': return 'bg-orange-100 text-orange-800';
+    case 'suspended': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// What the current standing means for the member's next booking
+export const describeStanding = (standing: MemberStanding) => {
+  switch (standing.standing) {
+    case 'suspended':
+      return standing.suspended_until
+        ? `You can book again from ${format(new Date(standing.suspended_until), 'PPP')}. Bookings you already have are not affected.`
+        : 'Booking is suspended. Bookings you already have are not affected.';
+    case 'approval':
+      return 'An admin will review each new booking before it is confirmed.';
+    case 'warning':
+      return 'Your bookings work as usual, but further no-shows or late cancellations will mean they need approval.';
+    default:
+      return 'No recent no-shows or late cancellations. Keep it up!';
+  }
+};
+
+export const describeStandingPolicy = (policy: StandingPolicy) => [
+  `A no-show counts ${policy.no_show_points} points and a late cancellation ${policy.late_cancellation_points}, for ${policy.window_days} days`,
+  `${policy.warning_points}+ points is a warning, ${policy.approval_points}+ means bookings need admin approval`,
+  `${policy.suspension_points}+ points suspends booking for ${policy.suspension_days} days after the latest one`,
+];
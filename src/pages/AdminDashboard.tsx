@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Fragment } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -7,12 +8,30 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
 import { toast } from '@/hooks/use-toast';
-import { LogOut, Plus, Users, Calendar, Clock, TrendingUp } from 'lucide-react';
+import { GameScheduleDialog } from '@/components/GameScheduleDialog';
+import { GameResourcesDialog } from '@/components/GameResourcesDialog';
+import { RescheduleBookingDialog } from '@/components/RescheduleBookingDialog';
+import { BookingSeriesDialog } from '@/components/BookingSeriesDialog';
+import { BookingDetailDrawer } from '@/components/BookingDetailDrawer';
+import { AdminBookingCalendar } from '@/components/AdminBookingCalendar';
+import { ConfirmBookingDialog } from '@/components/ConfirmBookingDialog';
+import { GamePricingDialog } from '@/components/GamePricingDialog';
+import { AutoApprovalRulesDialog } from '@/components/AutoApprovalRulesDialog';
+import { BookingQuotasDialog } from '@/components/BookingQuotasDialog';
+import { WeatherCancellationDialog } from '@/components/WeatherCancellationDialog';
+import { MemberProfileDialog } from '@/components/MemberProfileDialog';
+import { StandingPolicyDialog } from '@/components/StandingPolicyDialog';
+import { BulkBookingActions } from '@/components/BulkBookingActions';
+import { LogOut, Plus, Users, Calendar, Clock, TrendingUp, ScanLine, UserRound, Bell, Search, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
 import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { playAlertTone } from '@/lib/alertTone';
+import { BOOKINGS_PAGE_SIZE, BOOKING_SORT_COLUMNS, BookingFilters, BookingSortKey, readBookingFilters, toPrefixSearchQuery, writeBookingFilters } from '@/lib/bookingSearch';
 
 interface Booking {
   id: string;
@@ -20,12 +39,18 @@ interface Booking {
   game_id: string;
   booking_date: string;
   time_slot: string;
-  status: 'pending' | 'confirmed' | 'canceled' | 'no-show';
+  status: 'pending' | 'confirmed' | 'canceled' | 'no-show' | 'expired';
   cost?: number;
+  quoted_price: number | null;
+  price_override_reason: string | null;
   notes?: string;
+  series_id: string | null;
+  checked_in_at: string | null;
+  auto_approval_rules: { name: string } | null;
   created_at: string;
-  profiles: { name: string; email: string };
+  profiles: { name: string; email: string; membership_type: 'member' | 'guest' };
   games: { name: string };
+  game_resources: { name: string };
 }
 
 interface Game {
@@ -33,39 +58,155 @@ interface Game {
   name: string;
   description: string;
   is_active: boolean;
+  slot_duration_minutes: number;
+  buffer_minutes: number;
+  free_cancellation_hours: number;
+  change_cutoff_hours: number;
+  pending_expiry_hours: number;
+  pending_cutoff_hours: number;
+  booking_window_days: number;
+  booking_release_time: string | null;
+  min_lead_minutes: number;
+  is_outdoor: boolean;
+  no_show_grace_minutes: number;
+  hourly_rate: number;
+  guest_hourly_rate: number | null;
 }
 
+interface BookingStats {
+  totalBookings: number;
+  pendingBookings: number;
+  confirmedBookings: number;
+  totalRevenue: number;
+}
+
+// Inner join so the member search can filter on the embedded profile
+const BOOKING_SELECT = `
+  *,
+  profiles!bookings_user_id_fkey!inner (name, email, membership_type),
+  games (name),
+  game_resources (name),
+  auto_approval_rules (name)
+`;
+
 const AdminDashboard = () => {
   const { user, logout } = useAuth();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [games, setGames] = useState<Game[]>([]);
   const [newGame, setNewGame] = useState({ name: '', description: '' });
-  const [statusFilter, setStatusFilter] = useState('all');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = readBookingFilters(searchParams);
+  const filterKey = searchParams.toString();
+  const [searchText, setSearchText] = useState(filters.search);
+  const [totalCount, setTotalCount] = useState(0);
+  const [stats, setStats] = useState<BookingStats>({ totalBookings: 0, pendingBookings: 0, confirmedBookings: 0, totalRevenue: 0 });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isAddingGame, setIsAddingGame] = useState(false);
 
   useEffect(() => {
-    fetchBookings();
     fetchGames();
+    fetchStats();
   }, []);
 
+  useEffect(() => {
+    fetchBookings();
+  }, [filterKey]);
+
+  // Typing settles for a moment before the URL, and so the query, changes
+  useEffect(() => {
+    if (searchText.trim() === filters.search) return;
+
+    const timer = setTimeout(() => updateFilters({ search: searchText }), 300);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  // Back and forward navigation can change the search under the input
+  useEffect(() => {
+    if (filters.search !== searchText.trim()) {
+      setSearchText(filters.search);
+    }
+  }, [filters.search]);
+
+  // New requests and other admins' changes arrive without a reload. Resubscribed
+  // with the filters so new requests reload the page the admin is looking at.
+  useEffect(() => {
+    const channel = supabase
+      .channel('admin-bookings')
+      .on<Booking>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'bookings' },
+        (payload) => refreshBooking(payload.new.id, true)
+      )
+      .on<Booking>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'bookings' },
+        (payload) => refreshBooking(payload.new.id, false)
+      )
+      .on<Booking>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'bookings' },
+        () => {
+          fetchBookings();
+          fetchStats();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [filterKey]);
+
+  const updateFilters = (changes: Partial<BookingFilters>) => {
+    setSearchParams(writeBookingFilters({ ...filters, page: 1, ...changes }));
+  };
+
   const fetchBookings = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('bookings')
-        .select(`
-          *,
-          profiles (name, email),
-          games (name)
-        `)
-        .order('created_at', { ascending: false });
+        .select(BOOKING_SELECT, { count: 'exact' });
+
+      const searchQuery = toPrefixSearchQuery(filters.search);
+      if (searchQuery) {
+        query = query.textSearch('profiles.search_vector', searchQuery, { config: 'simple' });
+      }
+      if (filters.status !== 'all') {
+        query = query.eq('status', filters.status as Booking['status']);
+      }
+      if (filters.gameId !== 'all') {
+        query = query.eq('game_id', filters.gameId);
+      }
+      if (filters.from) {
+        query = query.gte('booking_date', filters.from);
+      }
+      if (filters.to) {
+        query = query.lte('booking_date', filters.to);
+      }
+
+      query = query.order(BOOKING_SORT_COLUMNS[filters.sort], { ascending: filters.ascending });
+      if (filters.sort === 'booking_date') {
+        query = query.order('time_slot', { ascending: filters.ascending });
+      }
+
+      const pageStart = (filters.page - 1) * BOOKINGS_PAGE_SIZE;
+      const { data, error, count } = await query
+        .order('id')
+        .range(pageStart, pageStart + BOOKINGS_PAGE_SIZE - 1);
 
       if (error) {
+        // Past the last page, e.g. after the filters narrowed the results
+        if (error.code === 'PGRST103') {
+          updateFilters({ page: 1 });
+          return;
+        }
         console.error('Error fetching bookings:', error);
         return;
       }
 
       setBookings(data || []);
+      setTotalCount(count ?? 0);
     } catch (error) {
       console.error('Error fetching bookings:', error);
     } finally {
@@ -73,6 +214,55 @@ const AdminDashboard = () => {
     }
   };
 
+  // Realtime rows carry no member or game names, so the row is reloaded with them
+  const refreshBooking = async (bookingId: string, isNew: boolean) => {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(BOOKING_SELECT)
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching booking:', error);
+      return;
+    }
+    if (!data) return;
+
+    fetchStats();
+    if (!isNew) {
+      setBookings(current => current.map(b => b.id === data.id ? data : b));
+      return;
+    }
+
+    fetchBookings();
+    if (data.status === 'pending') {
+      playAlertTone();
+      toast({
+        title: "New booking request",
+        description: `${data.profiles.name} · ${data.games.name} on ${format(new Date(data.booking_date), 'PPP')} at ${data.time_slot}`,
+      });
+    }
+  };
+
+  const fetchStats = async () => {
+    const { data, error } = await supabase.rpc('admin_booking_stats');
+
+    if (error) {
+      console.error('Error fetching booking stats:', error);
+      return;
+    }
+
+    const row = data?.[0];
+    if (row) {
+      setStats({
+        totalBookings: row.total_bookings,
+        pendingBookings: row.pending_bookings,
+        confirmedBookings: row.confirmed_bookings,
+        totalRevenue: row.total_revenue,
+      });
+    }
+  };
+
   const fetchGames = async () => {
     try {
       const { data, error } = await supabase
@@ -91,11 +281,12 @@ const AdminDashboard = () => {
     }
   };
 
-  const updateBookingStatus = async (bookingId: string, status: string, cost?: number) => {
+  const updateBookingStatus = async (bookingId: string, status: string, cost?: number, overrideReason?: string | null) => {
     try {
       const updateData: any = { status };
       if (cost !== undefined) {
         updateData.cost = cost;
+        updateData.price_override_reason = overrideReason ?? null;
       }
 
       const { error } = await supabase
@@ -157,7 +348,7 @@ const AdminDashboard = () => {
       await fetchGames();
       toast({
         title: "Game added",
-        description: "New game has been added successfully",
+        description: "It has one court open 09:00–21:00 daily; adjust these under Schedule and Courts",
       });
     } catch (error) {
       console.error('Error adding game:', error);
@@ -194,21 +385,68 @@ const AdminDashboard = () => {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'canceled': return 'bg-red-100 text-red-800';
       case 'no-show': return 'bg-gray-100 text-gray-800';
+      case 'expired': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const filteredBookings = bookings.filter(booking => 
-    statusFilter === 'all' || booking.status === statusFilter
+  const visibleSelectedIds = selectedIds.filter(id => bookings.some(b => b.id === id));
+  const allVisibleSelected = bookings.length > 0 && visibleSelectedIds.length === bookings.length;
+
+  const toggleSelected = (bookingId: string, checked: boolean) => {
+    setSelectedIds(current => checked ? [...current, bookingId] : current.filter(id => id !== bookingId));
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelectedIds(checked ? bookings.map(b => b.id) : []);
+  };
+
+  // Bookings that couldn't change stay selected so the admin can see which they were
+  const handleBulkApplied = async (failedIds: string[]) => {
+    setSelectedIds(failedIds);
+    await fetchBookings();
+    fetchStats();
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / BOOKINGS_PAGE_SIZE));
+  const pageStart = totalCount === 0 ? 0 : (filters.page - 1) * BOOKINGS_PAGE_SIZE + 1;
+  const pageEnd = Math.min(filters.page * BOOKINGS_PAGE_SIZE, totalCount);
+  const pageNumbers = [...new Set([1, filters.page - 1, filters.page, filters.page + 1, pageCount])]
+    .filter(page => page >= 1 && page <= pageCount)
+    .sort((a, b) => a - b);
+  const hasFilters = !!(filters.search || filters.status !== 'all' || filters.gameId !== 'all' || filters.from || filters.to);
+
+  // Links carry the full URL so a page can be opened in a new tab; clicks stay in the app
+  const renderPageLink = (page: number, children: React.ReactNode, Component: typeof PaginationLink = PaginationLink) => (
+    <Component
+      href={`?${writeBookingFilters({ ...filters, page })}`}
+      isActive={Component === PaginationLink && page === filters.page}
+      onClick={(e) => {
+        e.preventDefault();
+        updateFilters({ page });
+      }}
+    >
+      {children}
+    </Component>
   );
 
-  const stats = {
-    totalBookings: bookings.length,
-    pendingBookings: bookings.filter(b => b.status === 'pending').length,
-    confirmedBookings: bookings.filter(b => b.status === 'confirmed').length,
-    totalRevenue: bookings
-      .filter(b => b.status === 'confirmed' && b.cost)
-      .reduce((sum, b) => sum + (b.cost || 0), 0)
+  // Dates start newest first, names and statuses A to Z; a second click flips it
+  const renderSortableHead = (label: string, sortKey: BookingSortKey) => {
+    const isActive = filters.sort === sortKey;
+    const SortIcon = !isActive ? ArrowUpDown : filters.ascending ? ArrowUp : ArrowDown;
+    const defaultAscending = !['created_at', 'booking_date'].includes(sortKey);
+    return (
+      <TableHead>
+        <button
+          type="button"
+          className="flex items-center space-x-1 hover:text-gray-900"
+          onClick={() => updateFilters({ sort: sortKey, ascending: isActive ? !filters.ascending : defaultAscending })}
+        >
+          <span>{label}</span>
+          <SortIcon className={cn("w-3 h-3", !isActive && "text-gray-400")} />
+        </button>
+      </TableHead>
+    );
   };
 
   if (isLoading) {
@@ -234,6 +472,26 @@ const AdminDashboard = () => {
             </div>
             <div className="flex items-center space-x-4">
               <span className="text-sm text-gray-600">Welcome, {user?.name}</span>
+              <Button variant="outline" size="sm" onClick={() => updateFilters({ status: 'pending' })}>
+                <Bell className="w-4 h-4 mr-2" />
+                Pending
+                {stats.pendingBookings > 0 && (
+                  <Badge className="ml-2 bg-yellow-500 hover:bg-yellow-500">{stats.pendingBookings}</Badge>
+                )}
+              </Button>
+              <Link to="/check-in">
+                <Button variant="outline" size="sm">
+                  <ScanLine className="w-4 h-4 mr-2" />
+                  Check-in
+                </Button>
+              </Link>
+              <StandingPolicyDialog />
+              <Link to="/profile">
+                <Button variant="outline" size="sm">
+                  <UserRound className="w-4 h-4 mr-2" />
+                  Profile
+                </Button>
+              </Link>
               <Button variant="outline" size="sm" onClick={logout}>
                 <LogOut className="w-4 h-4 mr-2" />
                 Logout
@@ -297,49 +555,148 @@ const AdminDashboard = () => {
           </Card>
         </div>
 
+        {/* Calendar */}
+        <AdminBookingCalendar onBookingCreated={fetchBookings} />
+
         <div className="grid lg:grid-cols-3 gap-8">
           {/* Bookings Management */}
           <div className="lg:col-span-2">
             <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardHeader className="space-y-4 pb-2">
                 <div>
                   <CardTitle>Booking Management</CardTitle>
                   <CardDescription>Review and manage all booking requests</CardDescription>
                 </div>
-                <Select value={statusFilter} onValueChange={setStatusFilter}>
-                  <SelectTrigger className="w-48">
-                    <SelectValue placeholder="Filter by status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="confirmed">Confirmed</SelectItem>
-                    <SelectItem value="canceled">Canceled</SelectItem>
-                    <SelectItem value="no-show">No Show</SelectItem>
-                  </SelectContent>
-                </Select>
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div className="relative sm:col-span-2">
+                    <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      placeholder="Search members by name or email"
+                      className="pl-10"
+                      value={searchText}
+                      onChange={(e) => setSearchText(e.target.value)}
+                    />
+                  </div>
+                  <Select value={filters.status} onValueChange={(status) => updateFilters({ status })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Filter by status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Status</SelectItem>
+                      <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="confirmed">Confirmed</SelectItem>
+                      <SelectItem value="canceled">Canceled</SelectItem>
+                      <SelectItem value="no-show">No Show</SelectItem>
+                      <SelectItem value="expired">Expired</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={filters.gameId} onValueChange={(gameId) => updateFilters({ gameId })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Filter by game" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Games</SelectItem>
+                      {games.map((game) => (
+                        <SelectItem key={game.id} value={game.id}>{game.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center space-x-2">
+                    <Label htmlFor="bookings-from" className="text-sm text-gray-600">From</Label>
+                    <Input
+                      id="bookings-from"
+                      type="date"
+                      value={filters.from}
+                      max={filters.to || undefined}
+                      onChange={(e) => updateFilters({ from: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Label htmlFor="bookings-to" className="text-sm text-gray-600">To</Label>
+                    <Input
+                      id="bookings-to"
+                      type="date"
+                      value={filters.to}
+                      min={filters.from || undefined}
+                      onChange={(e) => updateFilters({ to: e.target.value })}
+                    />
+                  </div>
+                </div>
+                {hasFilters && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="self-start"
+                    onClick={() => {
+                      setSearchText('');
+                      updateFilters({ search: '', status: 'all', gameId: 'all', from: '', to: '' });
+                    }}
+                  >
+                    Clear filters
+                  </Button>
+                )}
               </CardHeader>
               <CardContent>
+                {visibleSelectedIds.length > 0 && (
+                  <div className="mb-4">
+                    <BulkBookingActions bookingIds={visibleSelectedIds} onApplied={handleBulkApplied} />
+                  </div>
+                )}
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>User</TableHead>
-                      <TableHead>Game</TableHead>
-                      <TableHead>Date & Time</TableHead>
-                      <TableHead>Status</TableHead>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allVisibleSelected}
+                          onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                          aria-label="Select all bookings"
+                        />
+                      </TableHead>
+                      {renderSortableHead('User', 'member')}
+                      {renderSortableHead('Game', 'game')}
+                      {renderSortableHead('Date & Time', 'booking_date')}
+                      {renderSortableHead('Status', 'status')}
+                      {renderSortableHead('Requested', 'created_at')}
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredBookings.map((booking) => (
-                      <TableRow key={booking.id}>
+                    {bookings.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                          {hasFilters ? 'No bookings match these filters' : 'No bookings yet'}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {bookings.map((booking) => (
+                      <TableRow key={booking.id} data-state={visibleSelectedIds.includes(booking.id) ? 'selected' : undefined}>
+                        <TableCell>
+                          <Checkbox
+                            checked={visibleSelectedIds.includes(booking.id)}
+                            onCheckedChange={(checked) => toggleSelected(booking.id, checked === true)}
+                            aria-label={`Select booking for ${booking.profiles.name}`}
+                          />
+                        </TableCell>
                         <TableCell>
                           <div>
-                            <p className="font-medium">{booking.profiles.name}</p>
+                            <MemberProfileDialog
+                              member={{ id: booking.user_id, ...booking.profiles }}
+                              onChanged={fetchBookings}
+                            />
                             <p className="text-sm text-gray-500">{booking.profiles.email}</p>
                           </div>
                         </TableCell>
-                        <TableCell>{booking.games.name}</TableCell>
+                        <TableCell>
+                          <div>
+                            <p>
+                              {booking.games.name}
+                              {booking.series_id && (
+                                <Badge variant="outline" className="ml-2">Weekly</Badge>
+                              )}
+                            </p>
+                            <p className="text-sm text-gray-500">{booking.game_resources.name}</p>
+                          </div>
+                        </TableCell>
                         <TableCell>
                           <div>
                             <p>{format(new Date(booking.booking_date), 'PPP')}</p>
@@ -350,49 +707,32 @@ const AdminDashboard = () => {
                           <Badge className={getStatusColor(booking.status)}>
                             {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
                           </Badge>
+                          {booking.checked_in_at && (
+                            <p className="text-xs text-green-600 mt-1">
+                              Checked in {format(new Date(booking.checked_in_at), 'HH:mm')}
+                            </p>
+                          )}
+                          {booking.auto_approval_rules && (
+                            <p className="text-xs text-gray-500 mt-1">Auto: {booking.auto_approval_rules.name}</p>
+                          )}
+                          {booking.cost != null && (
+                            <p className="text-sm text-gray-500 mt-1" title={booking.price_override_reason ?? undefined}>
+                              ₹{booking.cost}
+                              {booking.price_override_reason && ' (override)'}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-500">
+                          {format(new Date(booking.created_at), 'MMM d, HH:mm')}
                         </TableCell>
                         <TableCell>
-                          <div className="flex space-x-2">
+                          <div className="flex flex-wrap gap-2">
                             {booking.status === 'pending' && (
                               <>
-                                <Dialog>
-                                  <DialogTrigger asChild>
-                                    <Button size="sm" variant="outline">Confirm</Button>
-                                  </DialogTrigger>
-                                  <DialogContent>
-                                    <DialogHeader>
-                                      <DialogTitle>Confirm Booking</DialogTitle>
-                                      <DialogDescription>
-                                        Set the cost and confirm this booking
-                                      </DialogDescription>
-                                    </DialogHeader>
-                                    <div className="space-y-4">
-                                      <div>
-                                        <Label htmlFor="cost">Cost (₹)</Label>
-                                        <Input
-                                          id="cost"
-                                          type="number"
-                                          placeholder="Enter cost"
-                                          onKeyDown={(e) => {
-                                            if (e.key === 'Enter') {
-                                              const cost = (e.target as HTMLInputElement).value;
-                                              updateBookingStatus(booking.id, 'confirmed', parseFloat(cost) || 0);
-                                            }
-                                          }}
-                                        />
-                                      </div>
-                                      <Button
-                                        onClick={() => {
-                                          const costInput = document.getElementById('cost') as HTMLInputElement;
-                                          const cost = parseFloat(costInput.value) || 0;
-                                          updateBookingStatus(booking.id, 'confirmed', cost);
-                                        }}
-                                      >
-                                        Confirm Booking
-                                      </Button>
-                                    </div>
-                                  </DialogContent>
-                                </Dialog>
+                                <ConfirmBookingDialog
+                                  booking={booking}
+                                  onConfirm={(cost, reason) => updateBookingStatus(booking.id, 'confirmed', cost, reason)}
+                                />
                                 <Button
                                   size="sm"
                                   variant="destructive"
@@ -402,7 +742,7 @@ const AdminDashboard = () => {
                                 </Button>
                               </>
                             )}
-                            {booking.status === 'confirmed' && (
+                            {booking.status === 'confirmed' && !booking.checked_in_at && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -411,12 +751,65 @@ const AdminDashboard = () => {
                                 Mark No Show
                               </Button>
                             )}
+                            {['pending', 'confirmed'].includes(booking.status) && (
+                              <RescheduleBookingDialog
+                                booking={booking}
+                                gameName={booking.games.name}
+                                onRescheduled={fetchBookings}
+                              />
+                            )}
+                            {booking.series_id && ['pending', 'confirmed'].includes(booking.status) && (
+                              <BookingSeriesDialog
+                                seriesId={booking.series_id}
+                                gameId={booking.game_id}
+                                gameName={booking.games.name}
+                                bookingDate={booking.booking_date}
+                                timeSlot={booking.time_slot}
+                                onChanged={fetchBookings}
+                              />
+                            )}
+                            <BookingDetailDrawer booking={booking} />
                           </div>
                         </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
                 </Table>
+                {totalCount > 0 && (
+                  <div className="flex flex-col sm:flex-row items-center justify-between gap-3 mt-4">
+                    <p className="text-sm text-gray-500">
+                      Showing {pageStart}–{pageEnd} of {totalCount}
+                    </p>
+                    {pageCount > 1 && (
+                      <Pagination className="mx-0 w-auto">
+                        <PaginationContent>
+                          {filters.page > 1 && (
+                            <PaginationItem>
+                              {renderPageLink(filters.page - 1, null, PaginationPrevious)}
+                            </PaginationItem>
+                          )}
+                          {pageNumbers.map((page, i) => (
+                            <Fragment key={page}>
+                              {i > 0 && page - pageNumbers[i - 1] > 1 && (
+                                <PaginationItem>
+                                  <PaginationEllipsis />
+                                </PaginationItem>
+                              )}
+                              <PaginationItem>
+                                {renderPageLink(page, page)}
+                              </PaginationItem>
+                            </Fragment>
+                          ))}
+                          {filters.page < pageCount && (
+                            <PaginationItem>
+                              {renderPageLink(filters.page + 1, null, PaginationNext)}
+                            </PaginationItem>
+                          )}
+                        </PaginationContent>
+                      </Pagination>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -462,15 +855,23 @@ const AdminDashboard = () => {
                 <div className="space-y-3">
                   <h4 className="font-medium">Existing Games</h4>
                   {games.map((game) => (
-                    <div key={game.id} className="flex items-center justify-between p-3 border rounded">
-                      <div>
-                        <p className="font-medium">{game.name}</p>
-                        <p className="text-sm text-gray-500">{game.description}</p>
-                      </div>
-                      <div className="flex items-center space-x-2">
+                    <div key={game.id} className="p-3 border rounded space-y-3">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <p className="font-medium">{game.name}</p>
+                          <p className="text-sm text-gray-500">{game.description}</p>
+                          <p className="text-xs text-gray-400">
+                            {game.slot_duration_minutes} min slots
+                            {game.buffer_minutes > 0 && `, ${game.buffer_minutes} min buffer`}
+                            {`, ₹${game.hourly_rate}/hour`}
+                            {game.is_outdoor && ', outdoor'}
+                          </p>
+                        </div>
                         <Badge variant={game.is_active ? "default" : "secondary"}>
                           {game.is_active ? 'Active' : 'Inactive'}
                         </Badge>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
                         <Button
                           size="sm"
                           variant="outline"
@@ -478,6 +879,14 @@ const AdminDashboard = () => {
                         >
                           {game.is_active ? 'Deactivate' : 'Activate'}
                         </Button>
+                        <GameScheduleDialog game={game} onSaved={fetchGames} />
+                        <GameResourcesDialog game={game} />
+                        <GamePricingDialog game={game} onSaved={fetchGames} />
+                        <AutoApprovalRulesDialog game={game} />
+                        <BookingQuotasDialog game={game} />
+                        {game.is_outdoor && (
+                          <WeatherCancellationDialog game={game} onDeclared={fetchBookings} />
+                        )}
                       </div>
                     </div>
                   ))}
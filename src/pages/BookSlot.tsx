@@ -8,22 +8,56 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { toast } from '@/hooks/use-toast';
-import { Calendar as CalendarIcon, ArrowLeft, Clock } from 'lucide-react';
+import { Calendar as CalendarIcon, ArrowLeft, Clock, Repeat, CheckCircle2, XCircle, Timer } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+import { BookingQuotaUsage, describeQuotaUsage } from '@/lib/bookingQuota';
+import { BookingWindow, getLastBookableDate, isWithinLeadTime } from '@/lib/bookingPolicy';
+import { formatSlotRange, formatTimeSlot, generateTimeSlots, GameSchedule } from '@/lib/schedule';
 
-interface Game {
+interface GameResource {
+  id: string;
+  name: string;
+  is_active: boolean;
+}
+
+interface Game extends GameSchedule, BookingWindow {
   id: string;
   name: string;
   description: string;
+  hourly_rate: number;
+  game_resources: GameResource[];
+}
+
+interface SlotAvailability {
+  total: number;
+  freeResourceIds: string[];
+  closureReason: string | null;
 }
 
-const timeSlots = [
-  '09:00', '10:00', '11:00', '12:00',
-  '13:00', '14:00', '15:00', '16:00',
-  '17:00', '18:00', '19:00', '20:00'
-];
+interface SlotChange {
+  booking_date: string;
+  time_slot: string;
+}
+
+interface SeriesOccurrence {
+  booking_date: string;
+  error_code: string | null;
+}
+
+const SERIES_LENGTHS = [2, 4, 6, 8, 10, 12];
+
+const ANY_RESOURCE = 'any';
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
 
 const BookSlot = () => {
   const { user, logout } = useAuth();
@@ -32,25 +66,117 @@ const BookSlot = () => {
   const [selectedGame, setSelectedGame] = useState('');
   const [selectedDate, setSelectedDate] = useState<Date>();
   const [selectedTime, setSelectedTime] = useState('');
-  const [bookedSlots, setBookedSlots] = useState<string[]>([]);
+  const [selectedResource, setSelectedResource] = useState(ANY_RESOURCE);
+  const [availability, setAvailability] = useState<Record<string, SlotAvailability>>({});
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [occurrences, setOccurrences] = useState(4);
+  const [seriesPreview, setSeriesPreview] = useState<SeriesOccurrence[]>([]);
+  const [quotedPrice, setQuotedPrice] = useState<number | null>(null);
+  const [quotaUsage, setQuotaUsage] = useState<BookingQuotaUsage | null>(null);
+  const [slotChange, setSlotChange] = useState<SlotChange | null>(null);
+  const [holdExpiresAt, setHoldExpiresAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     fetchGames();
+    return () => {
+      releaseHold();
+    };
   }, []);
 
   useEffect(() => {
+    setSelectedTime('');
+    setAvailability({});
+    setQuotaUsage(null);
     if (selectedGame && selectedDate) {
-      fetchBookedSlots();
+      fetchAvailability();
+      fetchQuotaUsage();
     }
   }, [selectedGame, selectedDate]);
 
+  // Other members' bookings arrive through slot_changes, since their booking rows aren't visible here
+  useEffect(() => {
+    if (!selectedGame || !selectedDate) return;
+
+    const date = format(selectedDate, 'yyyy-MM-dd');
+    const channel = supabase
+      .channel(`slot-changes-${selectedGame}-${date}`)
+      .on<SlotChange>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'slot_changes', filter: `game_id=eq.${selectedGame}` },
+        (payload) => {
+          if (payload.new.booking_date === date) {
+            setSlotChange(payload.new);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedGame, selectedDate]);
+
+  useEffect(() => {
+    if (slotChange) {
+      refreshAfterSlotChange(slotChange);
+    }
+  }, [slotChange]);
+
+  useEffect(() => {
+    setSelectedResource(ANY_RESOURCE);
+    setQuotedPrice(null);
+    if (selectedGame && selectedDate && selectedTime) {
+      fetchQuote();
+    }
+  }, [selectedTime]);
+
+  // Holds the picked court while the member checks out so nobody can book it from under them
+  useEffect(() => {
+    setHoldExpiresAt(null);
+    if (selectedGame && selectedDate && selectedTime) {
+      holdSlot();
+    } else {
+      releaseHold();
+    }
+  }, [selectedTime, selectedResource]);
+
+  useEffect(() => {
+    if (!holdExpiresAt) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [holdExpiresAt]);
+
+  useEffect(() => {
+    if (holdExpiresAt && now >= holdExpiresAt && !isSubmitting) {
+      setHoldExpiresAt(null);
+      setSelectedTime('');
+      toast({
+        title: "Hold expired",
+        description: `We released ${selectedTime}. Pick a time again to hold it for a few more minutes.`,
+      });
+    }
+  }, [now]);
+
+  useEffect(() => {
+    setSeriesPreview([]);
+    if (isRecurring && selectedGame && selectedDate && selectedTime) {
+      fetchSeriesPreview();
+    }
+  }, [isRecurring, occurrences, selectedGame, selectedDate, selectedTime]);
+
   const fetchGames = async () => {
     try {
       const { data, error } = await supabase
         .from('games')
-        .select('*')
+        .select(`
+          *,
+          game_operating_hours (weekday, opens_at, closes_at),
+          game_resources (id, name, is_active)
+        `)
         .eq('is_active', true)
         .order('name');
 
@@ -67,28 +193,225 @@ const BookSlot = () => {
     }
   };
 
-  const fetchBookedSlots = async () => {
-    if (!selectedGame || !selectedDate) return;
+  const fetchAvailability = async () => {
+    if (!selectedGame || !selectedDate) return null;
 
     try {
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('time_slot')
-        .eq('game_id', selectedGame)
-        .eq('booking_date', format(selectedDate, 'yyyy-MM-dd'))
-        .in('status', ['pending', 'confirmed']);
+      const { data, error } = await supabase.rpc('slot_availability', {
+        p_game_id: selectedGame,
+        p_date: format(selectedDate, 'yyyy-MM-dd'),
+      });
 
       if (error) {
-        console.error('Error fetching booked slots:', error);
+        console.error('Error fetching availability:', error);
+        return null;
+      }
+
+      const slots: Record<string, SlotAvailability> = {};
+      data?.forEach(slot => {
+        slots[formatTimeSlot(slot.time_slot)] = {
+          total: slot.total_resources,
+          freeResourceIds: slot.free_resource_ids,
+          closureReason: slot.closure_reason,
+        };
+      });
+      setAvailability(slots);
+      return slots;
+    } catch (error) {
+      console.error('Error fetching availability:', error);
+      return null;
+    }
+  };
+
+  // Someone else booked or freed a slot on this day. If they took the slot or
+  // court the member had picked, drop that choice and say why.
+  const refreshAfterSlotChange = async (change: SlotChange) => {
+    const wasWaitlisting = isWaitlisting;
+    const slots = await fetchAvailability();
+    if (!slots || isSubmitting || !selectedTime || formatTimeSlot(change.time_slot) !== selectedTime) return;
+
+    const freeResourceIds = slots[selectedTime]?.freeResourceIds ?? [];
+    if (!wasWaitlisting && freeResourceIds.length === 0) {
+      setSelectedTime('');
+      toast({
+        title: "Slot just taken",
+        description: `Someone else took the last court at ${selectedTime}. Please pick another time or join its waitlist.`,
+        variant: "destructive",
+      });
+    } else if (selectedResource !== ANY_RESOURCE && !freeResourceIds.includes(selectedResource)) {
+      setSelectedResource(ANY_RESOURCE);
+      toast({
+        title: "Court just taken",
+        description: `Someone else took ${selectedResourceData?.name ?? 'that court'} at ${selectedTime}. We'll assign you another one.`,
+      });
+    } else if (wasWaitlisting && freeResourceIds.length > 0) {
+      holdSlot();
+      toast({
+        title: "A court freed up",
+        description: `You can book ${selectedTime} directly now`,
+      });
+    }
+  };
+
+  const holdSlot = async () => {
+    const { data, error } = await supabase.rpc('hold_slot', {
+      p_game_id: selectedGame,
+      p_booking_date: format(selectedDate, 'yyyy-MM-dd'),
+      p_time_slot: selectedTime,
+      p_resource_id: selectedResourceData?.id,
+    });
+
+    if (error) {
+      console.error('Error holding slot:', error);
+      return;
+    }
+
+    const result = data?.[0];
+    if (!result || result.error_code) {
+      // A full slot is offered as a waitlist instead, so there is nothing to hold
+      if (result?.error_code !== 'SLOT_FULL') {
+        toast({
+          title: "Could not hold this slot",
+          description: getBookingErrorMessage(result?.error_code),
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+
+    setNow(Date.now());
+    setHoldExpiresAt(new Date(result.expires_at).getTime());
+  };
+
+  const releaseHold = async () => {
+    const { error } = await supabase.rpc('release_slot_hold');
+
+    if (error) {
+      console.error('Error releasing slot hold:', error);
+    }
+  };
+
+  const fetchQuotaUsage = async () => {
+    try {
+      const { data, error } = await supabase.rpc('my_booking_quota', {
+        p_game_id: selectedGame,
+        p_date: format(selectedDate, 'yyyy-MM-dd'),
+      });
+
+      if (error) {
+        console.error('Error fetching booking limits:', error);
         return;
       }
 
-      setBookedSlots(data?.map(booking => booking.time_slot) || []);
+      setQuotaUsage(data?.[0] || null);
     } catch (error) {
-      console.error('Error fetching booked slots:', error);
+      console.error('Error fetching booking limits:', error);
     }
   };
 
+  const fetchQuote = async () => {
+    try {
+      const { data, error } = await supabase.rpc('quote_booking_price', {
+        p_game_id: selectedGame,
+        p_date: format(selectedDate, 'yyyy-MM-dd'),
+        p_time: selectedTime,
+      });
+
+      if (error) {
+        console.error('Error fetching price:', error);
+        return;
+      }
+
+      setQuotedPrice(data);
+    } catch (error) {
+      console.error('Error fetching price:', error);
+    }
+  };
+
+  const fetchSeriesPreview = async () => {
+    try {
+      const { data, error } = await supabase.rpc('preview_booking_series', {
+        p_game_id: selectedGame,
+        p_start_date: format(selectedDate, 'yyyy-MM-dd'),
+        p_time_slot: selectedTime,
+        p_occurrences: occurrences,
+      });
+
+      if (error) {
+        console.error('Error previewing series:', error);
+        return;
+      }
+
+      setSeriesPreview(data || []);
+    } catch (error) {
+      console.error('Error previewing series:', error);
+    }
+  };
+
+  const submitSeries = async () => {
+    const { data, error } = await supabase.rpc('create_booking_series', {
+      p_game_id: selectedGame,
+      p_start_date: format(selectedDate, 'yyyy-MM-dd'),
+      p_time_slot: selectedTime,
+      p_occurrences: occurrences,
+    });
+
+    if (error) {
+      console.error('Booking error:', error);
+      toast({
+        title: "Booking failed",
+        description: "Please try again",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const booked = data?.filter(occurrence => !occurrence.error_code) || [];
+    if (booked.length === 0) {
+      toast({
+        title: "Booking failed",
+        description: getBookingErrorMessage(data?.[0]?.error_code),
+        variant: "destructive",
+      });
+      fetchSeriesPreview();
+      return;
+    }
+
+    toast({
+      title: "Weekly booking submitted!",
+      description: `${booked.length} of ${data.length} weeks have been sent for approval`,
+    });
+
+    navigate('/dashboard');
+  };
+
+  const joinWaitlist = async () => {
+    const { data, error } = await supabase.rpc('join_waitlist', {
+      p_game_id: selectedGame,
+      p_booking_date: format(selectedDate, 'yyyy-MM-dd'),
+      p_time_slot: selectedTime,
+    });
+
+    const errorCode = error ? 'UNKNOWN' : data?.[0]?.error_code;
+    if (errorCode) {
+      if (error) console.error('Waitlist error:', error);
+      toast({
+        title: "Could not join waitlist",
+        description: getBookingErrorMessage(errorCode),
+        variant: "destructive",
+      });
+      fetchAvailability();
+      return;
+    }
+
+    toast({
+      title: "Added to waitlist",
+      description: "We'll book the slot for you automatically if a court frees up",
+    });
+
+    navigate('/dashboard');
+  };
+
   const handleSubmit = async () => {
     if (!selectedGame || !selectedDate || !selectedTime || !user) {
       toast({
@@ -102,32 +425,54 @@ const BookSlot = () => {
     setIsSubmitting(true);
 
     try {
-      const { error } = await supabase
-        .from('bookings')
-        .insert([
-          {
-            user_id: user.id,
-            game_id: selectedGame,
-            booking_date: format(selectedDate, 'yyyy-MM-dd'),
-            time_slot: selectedTime,
-            status: 'pending'
-          }
-        ]);
+      if (isWaitlisting) {
+        await joinWaitlist();
+        return;
+      }
+
+      if (isRecurring) {
+        await submitSeries();
+        return;
+      }
+
+      const { data, error } = await supabase.rpc('create_booking', {
+        p_game_id: selectedGame,
+        p_booking_date: format(selectedDate, 'yyyy-MM-dd'),
+        p_time_slot: selectedTime,
+        p_resource_id: selectedResource === ANY_RESOURCE ? undefined : selectedResource,
+      });
 
       if (error) {
         console.error('Booking error:', error);
         toast({
           title: "Booking failed",
-          description: "This slot might already be taken. Please try another time.",
+          description: "Please try again",
           variant: "destructive",
         });
         return;
       }
 
-      toast({
-        title: "Booking submitted!",
-        description: "Your booking request has been sent for approval",
-      });
+      const result = data?.[0];
+      if (!result || result.error_code) {
+        toast({
+          title: "Booking failed",
+          description: getBookingErrorMessage(result?.error_code),
+          variant: "destructive",
+        });
+        fetchAvailability();
+        return;
+      }
+
+      // Routine bookings may have been confirmed by an auto-approval rule
+      const { data: booking } = await supabase
+        .from('bookings')
+        .select('status')
+        .eq('id', result.booking_id)
+        .single();
+
+      toast(booking?.status === 'confirmed'
+        ? { title: "Booking confirmed!", description: "Your slot is reserved" }
+        : { title: "Booking submitted!", description: "Your booking request has been sent for approval" });
 
       navigate('/dashboard');
     } catch (error) {
@@ -142,11 +487,41 @@ const BookSlot = () => {
     }
   };
 
+  const isSlotTooSoon = (time: string) => {
+    if (!selectedGameData || !selectedDate) return false;
+    return isWithinLeadTime(format(selectedDate, 'yyyy-MM-dd'), time, selectedGameData);
+  };
+
   const isSlotAvailable = (time: string) => {
-    return !bookedSlots.includes(time);
+    return !isSlotTooSoon(time) && (availability[time]?.freeResourceIds.length ?? 0) > 0;
+  };
+
+  const isSlotClosed = (time: string) => !!availability[time]?.closureReason;
+
+  const isSlotFull = (time: string) => {
+    return !isSlotTooSoon(time) && !isSlotClosed(time) && availability[time]?.freeResourceIds.length === 0;
   };
 
   const selectedGameData = games.find(g => g.id === selectedGame);
+  const timeSlots = selectedGameData && selectedDate
+    ? generateTimeSlots(selectedGameData, selectedDate)
+    : [];
+  const freeResources = selectedGameData?.game_resources.filter(resource =>
+    availability[selectedTime]?.freeResourceIds.includes(resource.id)
+  ) || [];
+  const selectedResourceData = freeResources.find(r => r.id === selectedResource);
+  const isWaitlisting = !!selectedTime && isSlotFull(selectedTime);
+  const closureReasons = [...new Set(Object.values(availability).map(slot => slot.closureReason).filter(Boolean))];
+  const quotaLines = quotaUsage && selectedGameData ? describeQuotaUsage(quotaUsage, selectedGameData.name) : [];
+
+  const isDateDisabled = (date: Date) => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    if (date < today) return true;
+    if (!selectedGameData) return false;
+    return date > getLastBookableDate(selectedGameData)
+      || !selectedGameData.game_operating_hours.some(h => h.weekday === date.getDay());
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -211,6 +586,9 @@ const BookSlot = () => {
                           <div>
                             <h3 className="font-medium">{game.name}</h3>
                             <p className="text-sm text-gray-500">{game.description}</p>
+                            <p className="text-xs text-gray-400 mt-1">
+                              {game.slot_duration_minutes} min slots · from ₹{game.hourly_rate}/hour
+                            </p>
                           </div>
                           {selectedGame === game.id && (
                             <Badge className="bg-blue-600">Selected</Badge>
@@ -247,12 +625,19 @@ const BookSlot = () => {
                         mode="single"
                         selected={selectedDate}
                         onSelect={setSelectedDate}
-                        disabled={(date) => date < new Date()}
+                        disabled={isDateDisabled}
                         initialFocus
                         className="p-3"
                       />
                     </PopoverContent>
                   </Popover>
+                  {selectedGameData && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      {selectedGameData.name} opens {selectedGameData.booking_window_days} days ahead
+                      {selectedGameData.booking_release_time && ` at ${formatTimeSlot(selectedGameData.booking_release_time)}`}
+                      {selectedGameData.min_lead_minutes > 0 && ` and closes ${selectedGameData.min_lead_minutes} minutes before each slot`}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
@@ -263,25 +648,69 @@ const BookSlot = () => {
                   <CardDescription>Choose an available time slot</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="grid grid-cols-3 gap-3">
-                    {timeSlots.map((time) => {
-                      const available = isSlotAvailable(time);
-                      return (
-                        <Button
-                          key={time}
-                          variant={selectedTime === time ? "default" : "outline"}
-                          className={cn(
-                            "text-sm",
-                            !available && "opacity-50 cursor-not-allowed"
-                          )}
-                          disabled={!available}
-                          onClick={() => available && setSelectedTime(time)}
-                        >
-                          {time}
-                        </Button>
-                      );
-                    })}
-                  </div>
+                  {!selectedGame || !selectedDate ? (
+                    <p className="text-sm text-gray-500">Select a game and date to see available times</p>
+                  ) : timeSlots.length === 0 ? (
+                    <p className="text-sm text-gray-500">{selectedGameData?.name} is closed on this day</p>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-3">
+                      {timeSlots.map((time) => {
+                        const available = isSlotAvailable(time);
+                        const full = isSlotFull(time);
+                        const closed = isSlotClosed(time);
+                        const slot = availability[time];
+                        return (
+                          <Button
+                            key={time}
+                            variant={selectedTime === time ? "default" : "outline"}
+                            className={cn(
+                              "text-sm h-auto py-2 flex-col",
+                              full && selectedTime !== time && "border-dashed text-gray-500",
+                              !available && !full && "opacity-50 cursor-not-allowed"
+                            )}
+                            disabled={!available && !full}
+                            title={slot?.closureReason ?? undefined}
+                            onClick={() => setSelectedTime(time)}
+                          >
+                            <span>{time}</span>
+                            {closed ? (
+                              <span className="text-xs font-normal">Closed</span>
+                            ) : full ? (
+                              <span className="text-xs font-normal">Full · waitlist</span>
+                            ) : slot && slot.total > 1 && (
+                              <span className="text-xs font-normal">
+                                {slot.freeResourceIds.length} of {slot.total} free
+                              </span>
+                            )}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {closureReasons.length > 0 && (
+                    <div className="mt-4 space-y-1">
+                      {closureReasons.map((reason) => (
+                        <p key={reason} className="text-sm text-gray-500">Closed: {reason}</p>
+                      ))}
+                    </div>
+                  )}
+                  {selectedTime && !isRecurring && freeResources.length > 1 && (
+                    <div className="mt-4">
+                      <Select value={selectedResource} onValueChange={setSelectedResource}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Any free court" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY_RESOURCE}>Any free court</SelectItem>
+                          {freeResources.map((resource) => (
+                            <SelectItem key={resource.id} value={resource.id}>
+                              {resource.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -308,21 +737,113 @@ const BookSlot = () => {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Time:</span>
-                    <span className="font-medium">{selectedTime || 'Not selected'}</span>
+                    <span className="font-medium">
+                      {selectedTime && selectedGameData
+                        ? formatSlotRange(selectedTime, selectedGameData.slot_duration_minutes)
+                        : 'Not selected'}
+                    </span>
                   </div>
+                  {selectedTime && !isRecurring && !isWaitlisting && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Court:</span>
+                      <span className="font-medium">
+                        {selectedResourceData?.name || 'Assigned automatically'}
+                      </span>
+                    </div>
+                  )}
+                  {selectedTime && quotedPrice !== null && !isWaitlisting && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Price:</span>
+                      <span className="font-medium">
+                        ₹{quotedPrice}{isRecurring && ' per week'}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
+                {quotaLines.length > 0 && (
+                  <ul className="border-t pt-4 space-y-1 text-sm text-gray-600">
+                    {quotaLines.map((line) => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {isWaitlisting ? (
+                  <div className="border-t pt-4 text-sm text-gray-600">
+                    This slot is fully booked. Join the waitlist and the slot is booked for you
+                    automatically, in order of joining, if a court frees up.
+                  </div>
+                ) : (
+                  <div className="border-t pt-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="repeat-weekly" className="flex items-center space-x-2">
+                        <Repeat className="w-4 h-4" />
+                        <span>Repeat weekly</span>
+                      </Label>
+                      <Switch id="repeat-weekly" checked={isRecurring} onCheckedChange={setIsRecurring} />
+                    </div>
+                    {isRecurring && (
+                      <>
+                        <Select value={String(occurrences)} onValueChange={(value) => setOccurrences(Number(value))}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SERIES_LENGTHS.map((weeks) => (
+                              <SelectItem key={weeks} value={String(weeks)}>{weeks} weeks</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {seriesPreview.length > 0 && (
+                          <ul className="space-y-1 text-sm">
+                            {seriesPreview.map((occurrence) => (
+                              <li key={occurrence.booking_date} className="flex items-center justify-between">
+                                <span>{format(new Date(occurrence.booking_date), 'EEE, PPP')}</span>
+                                {occurrence.error_code ? (
+                                  <span className="flex items-center text-red-600" title={getBookingErrorMessage(occurrence.error_code)}>
+                                    <XCircle className="w-4 h-4 mr-1" />
+                                    Unavailable
+                                  </span>
+                                ) : (
+                                  <span className="flex items-center text-green-600">
+                                    <CheckCircle2 className="w-4 h-4 mr-1" />
+                                    Available
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {seriesPreview.some(occurrence => occurrence.error_code) && (
+                          <p className="text-xs text-gray-500">
+                            Unavailable weeks will be skipped; the rest are booked together.
+                          </p>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+
                 <div className="border-t pt-4">
+                  {holdExpiresAt && !isWaitlisting && (
+                    <div className="flex items-center space-x-2 text-sm text-amber-700 bg-amber-50 rounded-md px-3 py-2 mb-3">
+                      <Timer className="w-4 h-4" />
+                      <span>Held for you for {formatCountdown(holdExpiresAt - now)}</span>
+                    </div>
+                  )}
                   <div className="flex items-center space-x-2 text-sm text-gray-600 mb-4">
                     <Clock className="w-4 h-4" />
-                    <span>Booking requires admin approval</span>
+                    <span>Some bookings are confirmed instantly; others wait for admin approval</span>
                   </div>
                   <Button
                     className="w-full"
                     onClick={handleSubmit}
                     disabled={!selectedGame || !selectedDate || !selectedTime || isSubmitting}
                   >
-                    {isSubmitting ? 'Submitting...' : 'Submit Booking Request'}
+                    {isSubmitting
+                      ? 'Submitting...'
+                      : isWaitlisting ? 'Join Waitlist' : 'Submit Booking Request'}
                   </Button>
                 </div>
               </CardContent>
@@ -7,6 +7,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { RescheduleBookingDialog } from '@/components/RescheduleBookingDialog';
+import { BookingSeriesDialog } from '@/components/BookingSeriesDialog';
+import { BookingTimelineDialog } from '@/components/BookingTimelineDialog';
+import { CheckInCodeDialog } from '@/components/CheckInCodeDialog';
+import { toast } from '@/hooks/use-toast';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+import { canChangeBooking, isLateCancellation } from '@/lib/bookingPolicy';
 import { ArrowLeft, Filter, Users } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -15,11 +23,16 @@ interface Booking {
   game_id: string;
   booking_date: string;
   time_slot: string;
-  status: 'pending' | 'confirmed' | 'canceled' | 'no-show';
+  status: 'pending' | 'confirmed' | 'canceled' | 'no-show' | 'expired';
   cost?: number;
   created_at: string;
+  cancellation_reason: 'member' | 'member_late' | 'admin' | 'weather' | null;
+  series_id: string | null;
+  checked_in_at: string | null;
   games: {
     name: string;
+    free_cancellation_hours: number;
+    change_cutoff_hours: number;
   };
 }
 
@@ -47,7 +60,10 @@ const BookingHistory = () => {
           status,
           cost,
           created_at,
-          games (name)
+          cancellation_reason,
+          series_id,
+          checked_in_at,
+          games (name, free_cancellation_hours, change_cutoff_hours)
         `)
         .eq('user_id', user?.id)
         .order('created_at', { ascending: false });
@@ -65,12 +81,38 @@ const BookingHistory = () => {
     }
   };
 
+  const cancelBooking = async (bookingId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('cancel_booking', { p_booking_id: bookingId });
+
+      const errorCode = error ? 'UNKNOWN' : data?.[0]?.error_code;
+      if (errorCode) {
+        if (error) console.error('Error canceling booking:', error);
+        toast({
+          title: "Cancellation failed",
+          description: getBookingErrorMessage(errorCode),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await fetchBookings();
+      toast({
+        title: "Booking canceled",
+        description: "Your slot has been released",
+      });
+    } catch (error) {
+      console.error('Error canceling booking:', error);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return 'bg-green-100 text-green-800';
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'canceled': return 'bg-red-100 text-red-800';
       case 'no-show': return 'bg-gray-100 text-gray-800';
+      case 'expired': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -172,6 +214,7 @@ const BookingHistory = () => {
                   <SelectItem value="confirmed">Confirmed</SelectItem>
                   <SelectItem value="canceled">Canceled</SelectItem>
                   <SelectItem value="no-show">No Show</SelectItem>
+                  <SelectItem value="expired">Expired</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -194,13 +237,24 @@ const BookingHistory = () => {
                         <Users className="w-6 h-6 text-blue-600" />
                       </div>
                       <div>
-                        <h3 className="font-medium">{booking.games.name}</h3>
+                        <h3 className="font-medium flex items-center">
+                          {booking.games.name}
+                          {booking.series_id && (
+                            <Badge variant="outline" className="ml-2">Weekly</Badge>
+                          )}
+                        </h3>
                         <p className="text-sm text-gray-500">
                           {format(new Date(booking.booking_date), 'PPP')} at {booking.time_slot}
                         </p>
                         <p className="text-xs text-gray-400">
                           Booked on {format(new Date(booking.created_at), 'PPP')}
                         </p>
+                        {booking.cancellation_reason === 'member_late' && (
+                          <p className="text-xs text-red-500">Late cancellation</p>
+                        )}
+                        {booking.cancellation_reason === 'weather' && (
+                          <p className="text-xs text-blue-500">Rained off</p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-4">
@@ -213,6 +267,50 @@ const BookingHistory = () => {
                       <Badge className={getStatusColor(booking.status)}>
                         {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
                       </Badge>
+                      <BookingTimelineDialog bookingId={booking.id} gameName={booking.games.name} />
+                      {booking.status === 'confirmed' && !booking.checked_in_at && (
+                        <CheckInCodeDialog booking={booking} gameName={booking.games.name} />
+                      )}
+                      {booking.series_id && canChangeBooking(booking, booking.games) && (
+                        <BookingSeriesDialog
+                          seriesId={booking.series_id}
+                          gameId={booking.game_id}
+                          gameName={booking.games.name}
+                          bookingDate={booking.booking_date}
+                          timeSlot={booking.time_slot}
+                          onChanged={fetchBookings}
+                        />
+                      )}
+                      {canChangeBooking(booking, booking.games) && (
+                        <>
+                          <RescheduleBookingDialog
+                            booking={booking}
+                            gameName={booking.games.name}
+                            onRescheduled={fetchBookings}
+                          />
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button size="sm" variant="outline">Cancel</Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Cancel this booking?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {isLateCancellation(booking, booking.games)
+                                    ? `This is within ${booking.games.free_cancellation_hours} hours of the start and will be recorded as a late cancellation.`
+                                    : 'Your slot will be released for other members.'}
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Keep Booking</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => cancelBooking(booking.id)}>
+                                  Cancel Booking
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, ScanLine } from 'lucide-react';
+import { format } from 'date-fns';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+import { formatTimeSlot } from '@/lib/schedule';
+
+interface TodayBooking {
+  id: string;
+  time_slot: string;
+  status: 'pending' | 'confirmed' | 'canceled' | 'no-show' | 'expired';
+  checked_in_at: string | null;
+  profiles: { name: string };
+  games: { name: string };
+  game_resources: { name: string };
+}
+
+// Front desk: handheld scanners type the QR code into the field followed by Enter
+const CheckIn = () => {
+  const { user, logout } = useAuth();
+  const [code, setCode] = useState('');
+  const [bookings, setBookings] = useState<TodayBooking[]>([]);
+  const [lastCheckedIn, setLastCheckedIn] = useState<TodayBooking | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchTodayBookings();
+  }, []);
+
+  const fetchTodayBookings = async () => {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(`
+        id,
+        time_slot,
+        status,
+        checked_in_at,
+        profiles!bookings_user_id_fkey (name),
+        games (name),
+        game_resources (name)
+      `)
+      .eq('booking_date', format(new Date(), 'yyyy-MM-dd'))
+      .in('status', ['confirmed', 'no-show'])
+      .order('time_slot');
+
+    if (error) {
+      console.error('Error fetching today\'s bookings:', error);
+      return [];
+    }
+
+    setBookings(data || []);
+    return data || [];
+  };
+
+  const checkInWithCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc('check_in_booking', { p_token: code.trim() });
+
+      const errorCode = error ? 'UNKNOWN' : data?.[0]?.error_code;
+      if (errorCode) {
+        if (error) console.error('Check-in error:', error);
+        toast({
+          title: "Check-in failed",
+          description: getBookingErrorMessage(errorCode),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const refreshed = await fetchTodayBookings();
+      const booking = refreshed.find(b => b.id === data?.[0]?.booking_id) || null;
+      setLastCheckedIn(booking);
+      toast({
+        title: "Checked in",
+        description: booking ? `${booking.profiles.name} · ${booking.games.name} at ${formatTimeSlot(booking.time_slot)}` : undefined,
+      });
+    } finally {
+      setCode('');
+      setIsSubmitting(false);
+    }
+  };
+
+  // For members who cannot show their code
+  const checkInManually = async (booking: TodayBooking) => {
+    const { error } = await supabase
+      .from('bookings')
+      .update({ checked_in_at: new Date().toISOString(), checked_in_by: user?.id })
+      .eq('id', booking.id);
+
+    if (error) {
+      console.error('Error checking in booking:', error);
+      toast({
+        title: "Check-in failed",
+        description: "Please try again",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLastCheckedIn(booking);
+    await fetchTodayBookings();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-4">
+              <Link to="/admin">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </Button>
+              </Link>
+              <div className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-green-600 rounded-lg"></div>
+                <h1 className="text-xl font-bold text-gray-900">Check-in</h1>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={logout}>
+              Logout
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ScanLine className="w-5 h-5 text-blue-600" />
+              <span>Scan Code</span>
+            </CardTitle>
+            <CardDescription>Scan the member's QR code or type the code under it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={checkInWithCode} className="flex space-x-2">
+              <Input
+                autoFocus
+                placeholder="Check-in code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="font-mono"
+              />
+              <Button type="submit" disabled={!code.trim() || isSubmitting}>
+                {isSubmitting ? 'Checking...' : 'Check In'}
+              </Button>
+            </form>
+            {lastCheckedIn && (
+              <div className="mt-4 p-4 border rounded-lg bg-green-50 border-green-200">
+                <p className="font-medium">{lastCheckedIn.profiles.name}</p>
+                <p className="text-sm text-gray-600">
+                  {lastCheckedIn.games.name} · {lastCheckedIn.game_resources.name} at {formatTimeSlot(lastCheckedIn.time_slot)}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Today's Bookings</CardTitle>
+            <CardDescription>{format(new Date(), 'EEEE, PPP')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {bookings.length === 0 ? (
+              <p className="text-sm text-gray-500">No confirmed bookings today</p>
+            ) : (
+              <div className="space-y-3">
+                {bookings.map((booking) => (
+                  <div key={booking.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium">{booking.profiles.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {formatTimeSlot(booking.time_slot)} · {booking.games.name} · {booking.game_resources.name}
+                      </p>
+                    </div>
+                    {booking.checked_in_at ? (
+                      <Badge className="bg-green-100 text-green-800">
+                        In at {format(new Date(booking.checked_in_at), 'HH:mm')}
+                      </Badge>
+                    ) : booking.status === 'no-show' ? (
+                      <Badge className="bg-gray-100 text-gray-800">No-show</Badge>
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => checkInManually(booking)}>
+                        Check In
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default CheckIn;
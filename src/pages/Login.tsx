@@ -7,15 +7,38 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { toast } from '@/hooks/use-toast';
 import { User, Lock, Mail } from 'lucide-react';
 
+const SIGN_IN_CODE_LENGTH = 6;
+
 const Login = () => {
-  const { login, register, isLoading, user } = useAuth();
+  const { login, register, requestPasswordReset, sendSignInCode, verifySignInCode, isLoading, user } = useAuth();
   const navigate = useNavigate();
   const [loginData, setLoginData] = useState({ email: '', password: '' });
   const [registerData, setRegisterData] = useState({ name: '', email: '', password: '' });
   const [loginAttempted, setLoginAttempted] = useState(false);
+  const [isResettingPassword, setIsResettingPassword] = useState(false);
+  const [resetEmail, setResetEmail] = useState('');
+  const [codeEmail, setCodeEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  // Expired or already-used email links come back with the error in the URL hash
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const linkError = params.get('error_description');
+    if (linkError) {
+      toast({
+        title: "Sign-in link failed",
+        description: linkError,
+        variant: "destructive",
+      });
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, []);
 
   // Redirect if user is already logged in
   useEffect(() => {
@@ -73,6 +96,74 @@ const Login = () => {
     }
   };
 
+  const handlePasswordReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    try {
+      const success = await requestPasswordReset(resetEmail);
+
+      if (success) {
+        toast({
+          title: "Check your email",
+          description: `If ${resetEmail} has an account, we've sent a link to reset the password`,
+        });
+        setIsResettingPassword(false);
+      } else {
+        toast({
+          title: "Reset failed",
+          description: "Please wait a minute and try again",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setIsSending(true);
+    try {
+      const success = await sendSignInCode(codeEmail);
+
+      if (success) {
+        setCodeSent(true);
+        setCode('');
+        toast({
+          title: "Check your email",
+          description: "Enter the code we sent, or click the link in the email",
+        });
+      } else {
+        toast({
+          title: "Couldn't send a code",
+          description: "Check the email is registered, or wait a minute and try again",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const success = await verifySignInCode(codeEmail, code);
+
+    if (success) {
+      toast({
+        title: "Login successful!",
+        description: "Welcome back to SportClub",
+      });
+    } else {
+      setCode('');
+      toast({
+        title: "Login failed",
+        description: "The code is wrong or has expired",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     const success = await register(registerData.email, registerData.password, registerData.name);
@@ -103,59 +194,166 @@ const Login = () => {
         </div>
 
         <Tabs defaultValue="login" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="login">Login</TabsTrigger>
+            <TabsTrigger value="code">Email Code</TabsTrigger>
             <TabsTrigger value="register">Register</TabsTrigger>
           </TabsList>
           
           <TabsContent value="login">
+            {isResettingPassword ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Reset password</CardTitle>
+                  <CardDescription>We'll email you a link to choose a new password</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handlePasswordReset} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="reset-email">Email</Label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                        <Input
+                          id="reset-email"
+                          type="email"
+                          placeholder="Enter your email"
+                          className="pl-10"
+                          value={resetEmail}
+                          onChange={(e) => setResetEmail(e.target.value)}
+                          required
+                        />
+                      </div>
+                    </div>
+                    <Button type="submit" className="w-full" disabled={isSending}>
+                      {isSending ? 'Sending...' : 'Send Reset Link'}
+                    </Button>
+                    <Button type="button" variant="ghost" className="w-full" onClick={() => setIsResettingPassword(false)}>
+                      Back to sign in
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Welcome back</CardTitle>
+                  <CardDescription>Sign in to your account to continue</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleLogin} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="login-email">Email</Label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                        <Input
+                          id="login-email"
+                          type="email"
+                          placeholder="Enter your email"
+                          className="pl-10"
+                          value={loginData.email}
+                          onChange={(e) => setLoginData({...loginData, email: e.target.value})}
+                          required
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="login-password">Password</Label>
+                        <button
+                          type="button"
+                          className="text-xs text-blue-600 hover:underline"
+                          onClick={() => {
+                            setResetEmail(loginData.email);
+                            setIsResettingPassword(true);
+                          }}
+                        >
+                          Forgot password?
+                        </button>
+                      </div>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                        <Input
+                          id="login-password"
+                          type="password"
+                          placeholder="Enter your password"
+                          className="pl-10"
+                          value={loginData.password}
+                          onChange={(e) => setLoginData({...loginData, password: e.target.value})}
+                          required
+                        />
+                      </div>
+                    </div>
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? 'Signing in...' : 'Sign In'}
+                    </Button>
+                  </form>
+                
+                  <div className="mt-6 text-sm text-gray-600">
+                    <p className="mb-2"><strong>Demo Accounts:</strong></p>
+                    <p>Admin: admin@sportclub.com / admin123</p>
+                    <p>User: user@sportclub.com / user123</p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="code">
             <Card>
               <CardHeader>
-                <CardTitle>Welcome back</CardTitle>
-                <CardDescription>Sign in to your account to continue</CardDescription>
+                <CardTitle>Sign in without a password</CardTitle>
+                <CardDescription>
+                  {codeSent
+                    ? `Enter the ${SIGN_IN_CODE_LENGTH}-digit code sent to ${codeEmail}, or click the link in the email`
+                    : "We'll email you a one-time code and sign-in link"}
+                </CardDescription>
               </CardHeader>
               <CardContent>
-                <form onSubmit={handleLogin} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="login-email">Email</Label>
-                    <div className="relative">
-                      <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                      <Input
-                        id="login-email"
-                        type="email"
-                        placeholder="Enter your email"
-                        className="pl-10"
-                        value={loginData.email}
-                        onChange={(e) => setLoginData({...loginData, email: e.target.value})}
-                        required
-                      />
+                {codeSent ? (
+                  <form onSubmit={handleVerifyCode} className="space-y-4">
+                    <div className="flex justify-center">
+                      <InputOTP maxLength={SIGN_IN_CODE_LENGTH} value={code} onChange={setCode} autoFocus>
+                        <InputOTPGroup>
+                          {Array.from({ length: SIGN_IN_CODE_LENGTH }, (_, index) => (
+                            <InputOTPSlot key={index} index={index} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
                     </div>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="login-password">Password</Label>
-                    <div className="relative">
-                      <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                      <Input
-                        id="login-password"
-                        type="password"
-                        placeholder="Enter your password"
-                        className="pl-10"
-                        value={loginData.password}
-                        onChange={(e) => setLoginData({...loginData, password: e.target.value})}
-                        required
-                      />
+                    <Button type="submit" className="w-full" disabled={isLoading || code.length < SIGN_IN_CODE_LENGTH}>
+                      {isLoading ? 'Signing in...' : 'Sign In'}
+                    </Button>
+                    <div className="flex justify-between">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => setCodeSent(false)}>
+                        Use a different email
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" disabled={isSending} onClick={() => handleSendCode()}>
+                        {isSending ? 'Sending...' : 'Resend code'}
+                      </Button>
                     </div>
-                  </div>
-                  <Button type="submit" className="w-full" disabled={isLoading}>
-                    {isLoading ? 'Signing in...' : 'Sign In'}
-                  </Button>
-                </form>
-                
-                <div className="mt-6 text-sm text-gray-600">
-                  <p className="mb-2"><strong>Demo Accounts:</strong></p>
-                  <p>Admin: admin@sportclub.com / admin123</p>
-                  <p>User: user@sportclub.com / user123</p>
-                </div>
+                  </form>
+                ) : (
+                  <form onSubmit={handleSendCode} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="code-email">Email</Label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                        <Input
+                          id="code-email"
+                          type="email"
+                          placeholder="Enter your email"
+                          className="pl-10"
+                          value={codeEmail}
+                          onChange={(e) => setCodeEmail(e.target.value)}
+                          required
+                        />
+                      </div>
+                    </div>
+                    <Button type="submit" className="w-full" disabled={isSending}>
+                      {isSending ? 'Sending...' : 'Email Me a Code'}
+                    </Button>
+                  </form>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
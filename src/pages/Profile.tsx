@@ -0,0 +1,409 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { ArrowLeft, Bell, KeyRound, UserRound } from 'lucide-react';
+
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+const PHONE_PATTERN = /^\+?[0-9][0-9 -]{6,19}$/;
+
+const getInitials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+const Profile = () => {
+  const { user, logout, updateProfile } = useAuth();
+  const [name, setName] = useState(user?.name ?? '');
+  const [phone, setPhone] = useState(user?.phone ?? '');
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [notifyByEmail, setNotifyByEmail] = useState(true);
+  const [notifyBySms, setNotifyBySms] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchPreferences();
+    }
+  }, [user?.id]);
+
+  const fetchPreferences = async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('notify_by_email, notify_by_sms')
+      .eq('id', user?.id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching notification preferences:', error);
+      return;
+    }
+
+    setNotifyByEmail(data.notify_by_email);
+    setNotifyBySms(data.notify_by_sms);
+  };
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedPhone = phone.trim();
+    if (!name.trim()) {
+      toast({
+        title: "Name required",
+        description: "Please enter your name",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (trimmedPhone && !PHONE_PATTERN.test(trimmedPhone)) {
+      toast({
+        title: "Invalid phone number",
+        description: "Use digits, spaces or dashes, optionally starting with +",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (notifyBySms && !trimmedPhone) {
+      toast({
+        title: "Phone number required",
+        description: "Add a phone number to get SMS notifications",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await updateProfile({
+        name: name.trim(),
+        phone: trimmedPhone || null,
+        notify_by_email: notifyByEmail,
+        notify_by_sms: notifyBySms,
+      });
+
+      if (!saved) {
+        toast({
+          title: "Update failed",
+          description: "Failed to save your profile",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Supabase Auth emails a confirmation link; the profile follows once it is confirmed
+      if (email.trim() && email.trim() !== user?.email) {
+        const { error } = await supabase.auth.updateUser({ email: email.trim() });
+        if (error) {
+          console.error('Error changing email:', error);
+          toast({
+            title: "Email not changed",
+            description: error.message,
+            variant: "destructive",
+          });
+          return;
+        }
+        toast({
+          title: "Profile saved",
+          description: `Check ${email.trim()} for a link to confirm your new address`,
+        });
+        return;
+      }
+
+      toast({
+        title: "Profile saved",
+        description: "Your changes have been saved",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const uploadAvatar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    if (!file.type.startsWith('image/') || file.size > MAX_AVATAR_BYTES) {
+      toast({
+        title: "Photo not uploaded",
+        description: "Choose an image of 2 MB or less",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+      const path = `${user.id}/avatar-${Date.now()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from('avatars')
+        .upload(path, file, { contentType: file.type });
+
+      if (uploadError) {
+        console.error('Error uploading avatar:', uploadError);
+        toast({
+          title: "Photo not uploaded",
+          description: "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data } = supabase.storage.from('avatars').getPublicUrl(path);
+      const previousPath = user.avatar_url?.split('/avatars/')[1];
+
+      if (!await updateProfile({ avatar_url: data.publicUrl })) {
+        toast({
+          title: "Photo not saved",
+          description: "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (previousPath) {
+        await supabase.storage.from('avatars').remove([previousPath]);
+      }
+      toast({
+        title: "Photo updated",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword.length < 6) {
+      toast({
+        title: "Password too short",
+        description: "Use at least 6 characters",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Passwords don't match",
+        description: "Type the new password the same way twice",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsChangingPassword(true);
+    try {
+      // Re-checks the current password so an unattended session can't lock the member out
+      const { error: verifyError } = await supabase.auth.signInWithPassword({
+        email: user?.email ?? '',
+        password: currentPassword,
+      });
+      if (verifyError) {
+        toast({
+          title: "Password not changed",
+          description: "Your current password is incorrect",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+      if (error) {
+        console.error('Error changing password:', error);
+        toast({
+          title: "Password not changed",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      toast({
+        title: "Password changed",
+        description: "Use your new password next time you log in",
+      });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-4">
+              <Link to={user?.role === 'admin' ? '/admin' : '/dashboard'}>
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </Button>
+              </Link>
+              <div className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-green-600 rounded-lg"></div>
+                <h1 className="text-xl font-bold text-gray-900">Profile</h1>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={logout}>
+              Logout
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <form onSubmit={saveProfile} className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <UserRound className="w-5 h-5 text-blue-600" />
+                <span>Your Details</span>
+              </CardTitle>
+              <CardDescription>How the club sees and contacts you</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-4">
+                <Avatar className="h-16 w-16">
+                  <AvatarImage src={user?.avatar_url ?? undefined} alt={user?.name} />
+                  <AvatarFallback>{getInitials(user?.name ?? '')}</AvatarFallback>
+                </Avatar>
+                <div>
+                  <Label htmlFor="avatar" className="cursor-pointer">
+                    <span className="text-sm font-medium text-blue-600 hover:underline">
+                      {isUploading ? 'Uploading...' : 'Change photo'}
+                    </span>
+                  </Label>
+                  <input
+                    id="avatar"
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    disabled={isUploading}
+                    onChange={uploadAvatar}
+                  />
+                  <p className="text-xs text-gray-500">JPG, PNG or GIF, up to 2 MB</p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+                <p className="text-xs text-gray-500">We'll send a confirmation link to a new address before switching</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone</Label>
+                <Input
+                  id="phone"
+                  type="tel"
+                  placeholder="+91 98765 43210"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Bell className="w-5 h-5 text-purple-600" />
+                <span>Notifications</span>
+              </CardTitle>
+              <CardDescription>
+                Updates about your bookings always appear on your dashboard. Choose where else we send them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="notify-email">Email</Label>
+                <Switch id="notify-email" checked={notifyByEmail} onCheckedChange={setNotifyByEmail} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="notify-sms">SMS</Label>
+                <Switch id="notify-sms" checked={notifyBySms} onCheckedChange={setNotifyBySms} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" disabled={isSaving} className="w-full">
+            {isSaving ? 'Saving...' : 'Save Profile'}
+          </Button>
+        </form>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <KeyRound className="w-5 h-5 text-green-600" />
+              <span>Password</span>
+            </CardTitle>
+            <CardDescription>Change the password you log in with</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={changePassword} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="current-password">Current password</Label>
+                <Input
+                  id="current-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                />
+              </div>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm new password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                  />
+                </div>
+              </div>
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={isChangingPassword || !currentPassword || !newPassword}
+              >
+                {isChangingPassword ? 'Changing...' : 'Change Password'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Profile;
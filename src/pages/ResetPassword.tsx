@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
+import { Lock, User } from 'lucide-react';
+
+// Landing page for the password reset email. Supabase signs the member in from
+// the recovery token in the URL before this renders.
+const ResetPassword = () => {
+  const { user, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [linkError] = useState(() => new URLSearchParams(window.location.hash.slice(1)).get('error_description'));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < 6) {
+      toast({
+        title: "Password too short",
+        description: "Use at least 6 characters",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords don't match",
+        description: "Type the new password the same way twice",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      if (error) {
+        console.error('Error resetting password:', error);
+        toast({
+          title: "Password not changed",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Password changed",
+        description: "You're signed in with your new password",
+      });
+      navigate(user?.role === 'admin' ? '/admin' : '/dashboard');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      );
+    }
+
+    if (linkError || !user) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {linkError || 'This reset link is invalid or has already been used.'} Request a new one from the sign-in page.
+          </p>
+          <Link to="/login">
+            <Button className="w-full">Back to sign in</Button>
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="new-password">New password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder="Choose a new password"
+              className="pl-10"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirm-password">Confirm new password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder="Type it again"
+              className="pl-10"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+            />
+          </div>
+        </div>
+        <Button type="submit" className="w-full" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Set New Password'}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-green-600 rounded-2xl mx-auto mb-4 flex items-center justify-center">
+            <User className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">SportClub</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Choose a new password</CardTitle>
+            <CardDescription>{user ? `For ${user.email}` : 'Reset your SportClub password'}</CardDescription>
+          </CardHeader>
+          <CardContent>{renderContent()}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
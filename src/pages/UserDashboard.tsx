@@ -6,29 +6,47 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Users, Clock, LogOut } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { Calendar, Users, Clock, LogOut, ListOrdered, UserRound } from 'lucide-react';
 import { format } from 'date-fns';
+import { NotificationsCard } from '@/components/NotificationsCard';
+import { RainedOffCard } from '@/components/RainedOffCard';
+import { StandingCard } from '@/components/StandingCard';
+import { CheckInCodeDialog } from '@/components/CheckInCodeDialog';
+import { getBookingErrorMessage } from '@/lib/bookingErrors';
+import { formatTimeSlot } from '@/lib/schedule';
 
 interface Booking {
   id: string;
   game_id: string;
   booking_date: string;
   time_slot: string;
-  status: 'pending' | 'confirmed' | 'canceled' | 'no-show';
+  status: 'pending' | 'confirmed' | 'canceled' | 'no-show' | 'expired';
   cost?: number;
+  checked_in_at: string | null;
   games: {
     name: string;
   };
 }
 
+interface WaitlistEntry {
+  id: string;
+  game_name: string;
+  booking_date: string;
+  time_slot: string;
+  queue_position: number;
+}
+
 const UserDashboard = () => {
   const { user, logout } = useAuth();
   const [recentBookings, setRecentBookings] = useState<Booking[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     if (user) {
       fetchRecentBookings();
+      fetchWaitlist();
     }
   }, [user]);
 
@@ -43,6 +61,7 @@ const UserDashboard = () => {
           time_slot,
           status,
           cost,
+          checked_in_at,
           games (name)
         `)
         .eq('user_id', user?.id)
@@ -62,12 +81,44 @@ const UserDashboard = () => {
     }
   };
 
+  const fetchWaitlist = async () => {
+    try {
+      const { data, error } = await supabase.rpc('my_waitlist');
+
+      if (error) {
+        console.error('Error fetching waitlist:', error);
+        return;
+      }
+
+      setWaitlist(data || []);
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+    }
+  };
+
+  const leaveWaitlist = async (entryId: string) => {
+    const { data, error } = await supabase.rpc('leave_waitlist', { p_entry_id: entryId });
+
+    const errorCode = error ? 'UNKNOWN' : data?.[0]?.error_code;
+    if (errorCode) {
+      if (error) console.error('Error leaving waitlist:', error);
+      toast({
+        title: "Could not leave waitlist",
+        description: getBookingErrorMessage(errorCode),
+        variant: "destructive",
+      });
+    }
+
+    await fetchWaitlist();
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return 'bg-green-100 text-green-800';
       case 'pending': return 'bg-yellow-100 text-yellow-800';
       case 'canceled': return 'bg-red-100 text-red-800';
       case 'no-show': return 'bg-gray-100 text-gray-800';
+      case 'expired': return 'bg-orange-100 text-orange-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -84,6 +135,12 @@ const UserDashboard = () => {
             </div>
             <div className="flex items-center space-x-4">
               <span className="text-sm text-gray-600">Welcome, {user?.name}</span>
+              <Link to="/profile">
+                <Button variant="outline" size="sm">
+                  <UserRound className="w-4 h-4 mr-2" />
+                  Profile
+                </Button>
+              </Link>
               <Button variant="outline" size="sm" onClick={logout}>
                 <LogOut className="w-4 h-4 mr-2" />
                 Logout
@@ -132,6 +189,50 @@ const UserDashboard = () => {
           </Card>
         </div>
 
+        {/* Notifications */}
+        <NotificationsCard />
+
+        {/* Standing */}
+        <StandingCard />
+
+        {/* Rained off */}
+        <RainedOffCard onRebooked={fetchRecentBookings} />
+
+        {/* Waitlist */}
+        {waitlist.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <ListOrdered className="w-5 h-5 text-purple-600" />
+                <span>Waitlist</span>
+              </CardTitle>
+              <CardDescription>
+                You'll be booked automatically, in queue order, if a court frees up
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {waitlist.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div>
+                      <h3 className="font-medium">{entry.game_name}</h3>
+                      <p className="text-sm text-gray-500">
+                        {format(new Date(entry.booking_date), 'PPP')} at {formatTimeSlot(entry.time_slot)}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      <Badge variant="outline">#{entry.queue_position} in line</Badge>
+                      <Button size="sm" variant="outline" onClick={() => leaveWaitlist(entry.id)}>
+                        Leave
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Recent Bookings */}
         <Card>
           <CardHeader>
@@ -166,6 +267,9 @@ const UserDashboard = () => {
                       <Badge className={getStatusColor(booking.status)}>
                         {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
                       </Badge>
+                      {booking.status === 'confirmed' && !booking.checked_in_at && (
+                        <CheckInCodeDialog booking={booking} gameName={booking.games.name} />
+                      )}
                     </div>
                   </div>
                 ))}
@@ -0,0 +1,58 @@
+-- Slot length and gap between consecutive slots, per game
+ALTER TABLE public.games
+  ADD COLUMN slot_duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (slot_duration_minutes > 0),
+  ADD COLUMN buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes >= 0);
+
+-- Opening hours per weekday (0 = Sunday ... 6 = Saturday); a missing row means closed that day
+CREATE TABLE public.game_operating_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  opens_at TIME NOT NULL,
+  closes_at TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (closes_at > opens_at),
+  UNIQUE(game_id, weekday)
+);
+
+ALTER TABLE public.game_operating_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view operating hours" ON public.game_operating_hours FOR SELECT USING (true);
+CREATE POLICY "Admins can manage operating hours" ON public.game_operating_hours FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE TRIGGER update_game_operating_hours_updated_at BEFORE UPDATE ON public.game_operating_hours FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Start times of every slot a game offers on a given date
+CREATE OR REPLACE FUNCTION public.game_time_slots(p_game_id UUID, p_date DATE)
+RETURNS SETOF TIME AS $$
+  SELECT slot_start::time
+  FROM public.games g
+  JOIN public.game_operating_hours h
+    ON h.game_id = g.id AND h.weekday = EXTRACT(DOW FROM p_date)
+  CROSS JOIN LATERAL generate_series(
+    p_date + h.opens_at,
+    p_date + h.closes_at - make_interval(mins => g.slot_duration_minutes),
+    make_interval(mins => g.slot_duration_minutes + g.buffer_minutes)
+  ) AS slot_start
+  WHERE g.id = p_game_id
+  ORDER BY slot_start;
+$$ LANGUAGE sql STABLE;
+
+-- Default schedule: every day 09:00-21:00, matching the previous fixed hourly slots
+INSERT INTO public.game_operating_hours (game_id, weekday, opens_at, closes_at)
+SELECT g.id, d.weekday, '09:00', '21:00'
+FROM public.games g
+CROSS JOIN generate_series(0, 6) AS d(weekday);
+
+-- Cricket is played in 3-hour blocks in daylight
+UPDATE public.games SET slot_duration_minutes = 180 WHERE name = 'Cricket';
+UPDATE public.game_operating_hours SET opens_at = '06:00', closes_at = '18:00'
+WHERE game_id IN (SELECT id FROM public.games WHERE name = 'Cricket');
+
+-- Carrom and table tennis run 30-minute slots until late
+UPDATE public.games SET slot_duration_minutes = 30 WHERE name IN ('Carrom', 'Table Tennis');
+UPDATE public.game_operating_hours SET closes_at = '23:00'
+WHERE game_id IN (SELECT id FROM public.games WHERE name IN ('Carrom', 'Table Tennis'));
@@ -0,0 +1,116 @@
+-- Courts, tables and grounds that can be booked independently within a game
+CREATE TABLE public.game_resources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(game_id, name)
+);
+
+ALTER TABLE public.game_resources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view game resources" ON public.game_resources FOR SELECT USING (true);
+CREATE POLICY "Admins can manage game resources" ON public.game_resources FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE TRIGGER update_game_resources_updated_at BEFORE UPDATE ON public.game_resources FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO public.game_resources (game_id, name)
+SELECT g.id, r.name
+FROM public.games g
+JOIN (VALUES
+  ('Cricket', 'Ground'),
+  ('Carrom', 'Board 1'),
+  ('Badminton', 'Court 1'),
+  ('Badminton', 'Court 2'),
+  ('Badminton', 'Court 3'),
+  ('Table Tennis', 'Table 1'),
+  ('Table Tennis', 'Table 2'),
+  ('Table Tennis', 'Table 3'),
+  ('Table Tennis', 'Table 4')
+) AS r(game, name) ON r.game = g.name;
+
+-- Any other game gets a single resource so existing bookings can be attached
+INSERT INTO public.game_resources (game_id, name)
+SELECT g.id, 'Main'
+FROM public.games g
+WHERE NOT EXISTS (SELECT 1 FROM public.game_resources r WHERE r.game_id = g.id);
+
+-- Bookings now reserve a specific resource instead of the whole game
+ALTER TABLE public.bookings ADD COLUMN resource_id UUID REFERENCES public.game_resources(id);
+
+UPDATE public.bookings b
+SET resource_id = (
+  SELECT r.id FROM public.game_resources r WHERE r.game_id = b.game_id ORDER BY r.name LIMIT 1
+);
+
+ALTER TABLE public.bookings ALTER COLUMN resource_id SET NOT NULL;
+
+ALTER TABLE public.bookings DROP CONSTRAINT bookings_game_id_booking_date_time_slot_key;
+
+-- Only live bookings block a resource, so canceled slots can be booked again
+CREATE UNIQUE INDEX bookings_resource_slot_key ON public.bookings (resource_id, booking_date, time_slot)
+WHERE status IN ('pending', 'confirmed');
+
+-- Assign the first free resource when the booking does not name one
+CREATE OR REPLACE FUNCTION public.assign_booking_resource()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.resource_id IS NULL THEN
+    SELECT r.id INTO NEW.resource_id
+    FROM public.game_resources r
+    WHERE r.game_id = NEW.game_id
+      AND r.is_active
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bookings b
+        WHERE b.resource_id = r.id
+          AND b.booking_date = NEW.booking_date
+          AND b.time_slot = NEW.time_slot
+          AND b.status IN ('pending', 'confirmed')
+      )
+    ORDER BY r.name
+    LIMIT 1;
+
+    IF NEW.resource_id IS NULL THEN
+      RAISE EXCEPTION 'No free resource for this slot' USING ERRCODE = '23505';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.game_resources r WHERE r.id = NEW.resource_id AND r.game_id = NEW.game_id
+  ) THEN
+    RAISE EXCEPTION 'Resource does not belong to this game' USING ERRCODE = '23503';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_booking_resource BEFORE INSERT ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.assign_booking_resource();
+
+-- Per-slot availability for a game and date. Runs as definer because members
+-- can only read their own bookings but need to see how many courts are taken.
+CREATE OR REPLACE FUNCTION public.slot_availability(p_game_id UUID, p_date DATE)
+RETURNS TABLE (time_slot TIME, total_resources INTEGER, free_resource_ids UUID[]) AS $$
+  SELECT
+    s.slot,
+    (SELECT COUNT(*)::integer FROM public.game_resources r WHERE r.game_id = p_game_id AND r.is_active),
+    COALESCE(
+      (
+        SELECT array_agg(r.id ORDER BY r.name)
+        FROM public.game_resources r
+        WHERE r.game_id = p_game_id
+          AND r.is_active
+          AND NOT EXISTS (
+            SELECT 1 FROM public.bookings b
+            WHERE b.resource_id = r.id
+              AND b.booking_date = p_date
+              AND b.time_slot = s.slot
+              AND b.status IN ('pending', 'confirmed')
+          )
+      ),
+      '{}'
+    )
+  FROM public.game_time_slots(p_game_id, p_date) AS s(slot);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,138 @@
+-- Bookings are created through create_booking only, so members can no longer
+-- insert rows (or pick their own status and cost) directly
+DROP POLICY "Users can create own bookings" ON public.bookings;
+CREATE POLICY "Admins can create bookings" ON public.bookings FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Slots are defined in club local time
+CREATE OR REPLACE FUNCTION public.booking_starts_at(p_date DATE, p_time TIME)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT (p_date + p_time) AT TIME ZONE 'Asia/Kolkata';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- How far ahead a slot may be booked
+CREATE OR REPLACE FUNCTION public.booking_window_error(p_game_id UUID, p_date DATE, p_time TIME)
+RETURNS TEXT AS $$
+BEGIN
+  IF public.booking_starts_at(p_date, p_time) <= NOW() THEN
+    RETURN 'SLOT_IN_PAST';
+  END IF;
+
+  IF p_date > (NOW() AT TIME ZONE 'Asia/Kolkata')::date + 30 THEN
+    RETURN 'OUTSIDE_BOOKING_WINDOW';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- How many upcoming bookings a member may hold at once
+CREATE OR REPLACE FUNCTION public.booking_quota_error(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.bookings b
+    WHERE b.user_id = p_user_id
+      AND b.status IN ('pending', 'confirmed')
+      AND public.booking_starts_at(b.booking_date, b.time_slot) > NOW()
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+  ) >= 5 THEN
+    RETURN 'QUOTA_EXCEEDED';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Returns the reason a member cannot book the slot, or NULL if they can
+CREATE OR REPLACE FUNCTION public.booking_slot_error(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_is_active BOOLEAN;
+  v_error TEXT;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT is_active INTO v_is_active FROM public.games WHERE id = p_game_id;
+  IF NOT FOUND THEN
+    RETURN 'GAME_NOT_FOUND';
+  END IF;
+  IF NOT COALESCE(v_is_active, false) THEN
+    RETURN 'GAME_INACTIVE';
+  END IF;
+
+  IF p_time IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.game_time_slots(p_game_id, p_date) AS s(slot) WHERE s.slot = p_time
+  ) THEN
+    RETURN 'INVALID_SLOT';
+  END IF;
+
+  v_error := public.booking_window_error(p_game_id, p_date, p_time);
+  IF v_error IS NOT NULL THEN
+    RETURN v_error;
+  END IF;
+
+  RETURN public.booking_quota_error(p_user_id, p_game_id, p_date, p_time, p_exclude_booking_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Validates and books a slot for the current user in one transaction.
+-- Returns the new booking id, or an error code the client maps to a message.
+CREATE OR REPLACE FUNCTION public.create_booking(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+  v_booking_id UUID;
+BEGIN
+  v_error := public.booking_slot_error(auth.uid(), p_game_id, p_booking_date, p_time_slot);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(p_game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT NULL::uuid, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, game_id, resource_id, booking_date, time_slot, status, notes)
+  VALUES (auth.uid(), p_game_id, p_resource_id, p_booking_date, p_time_slot, 'pending', p_notes)
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
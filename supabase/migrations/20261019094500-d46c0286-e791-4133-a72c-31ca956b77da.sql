@@ -0,0 +1,58 @@
+-- Admin check usable from policies and triggers without recursing into profiles RLS
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Profiles: members may create their own row as a plain user and edit their name only
+DROP POLICY "Allow profile creation" ON public.profiles;
+CREATE POLICY "Allow profile creation" ON public.profiles FOR INSERT WITH CHECK (
+  auth.uid() = id AND role = 'user'
+);
+CREATE POLICY "Admins can update profiles" ON public.profiles FOR UPDATE USING (public.is_admin());
+
+-- Column-level guard for requests coming straight from the API. Functions running
+-- as their definer (create_booking etc.) are trusted to enforce their own rules.
+CREATE OR REPLACE FUNCTION public.protect_profile_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id <> OLD.id OR NEW.email <> OLD.email OR NEW.role <> OLD.role THEN
+    RAISE EXCEPTION 'Only name can be changed on your profile' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_profile_columns BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION public.protect_profile_columns();
+
+-- Bookings: members may only cancel their own live bookings; everything else is admin-only
+DROP POLICY "Users can update own bookings" ON public.bookings;
+CREATE POLICY "Users can cancel own bookings" ON public.bookings FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND status = 'canceled');
+CREATE POLICY "Admins can update bookings" ON public.bookings FOR UPDATE USING (public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.protect_booking_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status NOT IN ('pending', 'confirmed')
+    OR NEW.status IS DISTINCT FROM 'canceled'
+    OR (to_jsonb(NEW) - 'status' - 'updated_at') <> (to_jsonb(OLD) - 'status' - 'updated_at')
+  THEN
+    RAISE EXCEPTION 'Members can only cancel their own bookings' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_booking_columns BEFORE UPDATE ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.protect_booking_columns();
@@ -0,0 +1,134 @@
+-- Cancellation policy per game: free cancellation until free_cancellation_hours
+-- before the start, late cancellation until change_cutoff_hours, then no changes
+ALTER TABLE public.games
+  ADD COLUMN free_cancellation_hours INTEGER NOT NULL DEFAULT 12 CHECK (free_cancellation_hours >= 0),
+  ADD COLUMN change_cutoff_hours INTEGER NOT NULL DEFAULT 2 CHECK (change_cutoff_hours >= 0),
+  ADD CONSTRAINT games_change_cutoff_within_free_cancellation CHECK (change_cutoff_hours <= free_cancellation_hours);
+
+CREATE TYPE cancellation_reason AS ENUM ('member', 'member_late', 'admin');
+
+ALTER TABLE public.bookings
+  ADD COLUMN cancellation_reason cancellation_reason,
+  ADD COLUMN canceled_at TIMESTAMP WITH TIME ZONE;
+
+-- Members now cancel through cancel_booking so the cutoff is enforced
+DROP POLICY "Users can cancel own bookings" ON public.bookings;
+
+CREATE OR REPLACE FUNCTION public.stamp_booking_cancellation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'canceled' AND OLD.status IS DISTINCT FROM 'canceled' THEN
+    NEW.canceled_at := NOW();
+    NEW.cancellation_reason := COALESCE(NEW.cancellation_reason, 'admin');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_booking_cancellation BEFORE UPDATE ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.stamp_booking_cancellation();
+
+-- Returns why the current user cannot change the booking, or NULL if they can
+CREATE OR REPLACE FUNCTION public.booking_change_error(p_booking public.bookings)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_booking.id IS NULL OR p_booking.user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN 'BOOKING_NOT_FOUND';
+  END IF;
+
+  IF p_booking.status NOT IN ('pending', 'confirmed') THEN
+    RETURN 'BOOKING_NOT_CHANGEABLE';
+  END IF;
+
+  IF public.booking_starts_at(p_booking.booking_date, p_booking.time_slot)
+    - make_interval(hours => (SELECT change_cutoff_hours FROM public.games WHERE id = p_booking.game_id))
+    <= NOW()
+  THEN
+    RETURN 'CHANGE_CUTOFF_PASSED';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_booking(p_booking_id UUID)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking public.bookings;
+  v_error TEXT;
+  v_is_late BOOLEAN;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  v_error := public.booking_change_error(v_booking);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT p_booking_id, v_error;
+    RETURN;
+  END IF;
+
+  SELECT public.booking_starts_at(v_booking.booking_date, v_booking.time_slot)
+    - make_interval(hours => g.free_cancellation_hours) <= NOW()
+  INTO v_is_late
+  FROM public.games g WHERE g.id = v_booking.game_id;
+
+  UPDATE public.bookings
+  SET status = 'canceled',
+      cancellation_reason = CASE WHEN v_is_late THEN 'member_late'::cancellation_reason ELSE 'member'::cancellation_reason END
+  WHERE id = p_booking_id;
+
+  RETURN QUERY SELECT p_booking_id, NULL::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Moves a booking to another slot of the same game in one transaction, so the
+-- old slot is only released if the new one could be claimed
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking public.bookings;
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  v_error := COALESCE(
+    public.booking_change_error(v_booking),
+    public.booking_slot_error(auth.uid(), v_booking.game_id, p_booking_date, p_time_slot, p_booking_id)
+  );
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT p_booking_id, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(v_booking.game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT p_booking_id, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT p_booking_id, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  -- A moved booking goes back to the approval queue for its new time
+  UPDATE public.bookings
+  SET booking_date = p_booking_date,
+      time_slot = p_time_slot,
+      resource_id = COALESCE(p_resource_id, v_free_resource_ids[1]),
+      status = 'pending'
+  WHERE id = p_booking_id;
+
+  RETURN QUERY SELECT p_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT p_booking_id, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,291 @@
+-- Weekly recurring bookings: one series row, one booking per occurrence
+CREATE TABLE public.booking_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  time_slot TIME NOT NULL,
+  occurrences INTEGER NOT NULL CHECK (occurrences BETWEEN 2 AND 12),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own booking series" ON public.booking_series FOR SELECT USING (
+  user_id = auth.uid() OR public.is_admin()
+);
+
+CREATE TRIGGER update_booking_series_updated_at BEFORE UPDATE ON public.booking_series FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.bookings ADD COLUMN series_id UUID REFERENCES public.booking_series(id) ON DELETE SET NULL;
+CREATE INDEX bookings_series_id_idx ON public.bookings (series_id);
+
+-- Shared insert path for create_booking and create_booking_series. Not exposed
+-- to clients: callers are responsible for deciding whose booking this is.
+CREATE OR REPLACE FUNCTION public.insert_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+  v_booking_id UUID;
+BEGIN
+  v_error := public.booking_slot_error(p_user_id, p_game_id, p_booking_date, p_time_slot);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(p_game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT NULL::uuid, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, game_id, resource_id, booking_date, time_slot, status, notes, series_id)
+  VALUES (p_user_id, p_game_id, p_resource_id, p_booking_date, p_time_slot, 'pending', p_notes, p_series_id)
+  RETURNING id INTO v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.insert_booking(UUID, UUID, DATE, TIME, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_booking(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+  SELECT * FROM public.insert_booking(auth.uid(), p_game_id, p_booking_date, p_time_slot, p_resource_id, p_notes);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Checks every weekly occurrence without booking anything
+CREATE OR REPLACE FUNCTION public.preview_booking_series(
+  p_game_id UUID,
+  p_start_date DATE,
+  p_time_slot TIME,
+  p_occurrences INTEGER
+)
+RETURNS TABLE (booking_date DATE, error_code TEXT) AS $$
+  SELECT
+    d.occurrence_date,
+    COALESCE(
+      public.booking_slot_error(auth.uid(), p_game_id, d.occurrence_date, p_time_slot),
+      CASE WHEN COALESCE((
+        SELECT cardinality(a.free_resource_ids)
+        FROM public.slot_availability(p_game_id, d.occurrence_date) a
+        WHERE a.time_slot = p_time_slot
+      ), 0) = 0 THEN 'SLOT_FULL' END
+    )
+  FROM (
+    SELECT p_start_date + (i * 7) AS occurrence_date
+    FROM generate_series(0, LEAST(GREATEST(p_occurrences, 1), 12) - 1) AS i
+  ) d
+  ORDER BY d.occurrence_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Books every free occurrence of a weekly series; conflicting weeks are skipped
+-- and reported so the member can see exactly which dates they got
+CREATE OR REPLACE FUNCTION public.create_booking_series(
+  p_game_id UUID,
+  p_start_date DATE,
+  p_time_slot TIME,
+  p_occurrences INTEGER
+)
+RETURNS TABLE (booking_date DATE, booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_series_id UUID;
+  v_date DATE;
+  v_result RECORD;
+  v_booked INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN QUERY SELECT p_start_date, NULL::uuid, 'NOT_AUTHENTICATED'::text;
+    RETURN;
+  END IF;
+
+  IF p_occurrences NOT BETWEEN 2 AND 12 THEN
+    RETURN QUERY SELECT p_start_date, NULL::uuid, 'INVALID_SERIES'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.booking_series (user_id, game_id, start_date, time_slot, occurrences)
+  VALUES (auth.uid(), p_game_id, p_start_date, p_time_slot, p_occurrences)
+  RETURNING id INTO v_series_id;
+
+  FOR i IN 0 .. p_occurrences - 1 LOOP
+    v_date := p_start_date + (i * 7);
+    SELECT * INTO v_result
+    FROM public.insert_booking(auth.uid(), p_game_id, v_date, p_time_slot, NULL, NULL, v_series_id);
+
+    IF v_result.error_code IS NULL THEN
+      v_booked := v_booked + 1;
+    END IF;
+
+    RETURN QUERY SELECT v_date, v_result.booking_id, v_result.error_code;
+  END LOOP;
+
+  IF v_booked = 0 THEN
+    DELETE FROM public.booking_series WHERE id = v_series_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admins may change any booking without the member cutoff; members only their own
+CREATE OR REPLACE FUNCTION public.booking_change_error(p_booking public.bookings)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_booking.id IS NULL OR (p_booking.user_id IS DISTINCT FROM auth.uid() AND NOT public.is_admin()) THEN
+    RETURN 'BOOKING_NOT_FOUND';
+  END IF;
+
+  IF p_booking.status NOT IN ('pending', 'confirmed') THEN
+    RETURN 'BOOKING_NOT_CHANGEABLE';
+  END IF;
+
+  IF NOT public.is_admin() AND public.booking_starts_at(p_booking.booking_date, p_booking.time_slot)
+    - make_interval(hours => (SELECT change_cutoff_hours FROM public.games WHERE id = p_booking.game_id))
+    <= NOW()
+  THEN
+    RETURN 'CHANGE_CUTOFF_PASSED';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_booking(p_booking_id UUID)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking public.bookings;
+  v_error TEXT;
+  v_reason cancellation_reason;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  v_error := public.booking_change_error(v_booking);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT p_booking_id, v_error;
+    RETURN;
+  END IF;
+
+  IF v_booking.user_id IS DISTINCT FROM auth.uid() THEN
+    v_reason := 'admin';
+  ELSIF public.booking_starts_at(v_booking.booking_date, v_booking.time_slot)
+    - make_interval(hours => (SELECT free_cancellation_hours FROM public.games WHERE id = v_booking.game_id))
+    <= NOW()
+  THEN
+    v_reason := 'member_late';
+  ELSE
+    v_reason := 'member';
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'canceled', cancellation_reason = v_reason
+  WHERE id = p_booking_id;
+
+  RETURN QUERY SELECT p_booking_id, NULL::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking public.bookings;
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  v_error := COALESCE(
+    public.booking_change_error(v_booking),
+    public.booking_slot_error(v_booking.user_id, v_booking.game_id, p_booking_date, p_time_slot, p_booking_id)
+  );
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT p_booking_id, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(v_booking.game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT p_booking_id, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT p_booking_id, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  -- A moved booking goes back to the approval queue for its new time
+  UPDATE public.bookings
+  SET booking_date = p_booking_date,
+      time_slot = p_time_slot,
+      resource_id = COALESCE(p_resource_id, v_free_resource_ids[1]),
+      status = 'pending'
+  WHERE id = p_booking_id;
+
+  RETURN QUERY SELECT p_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT p_booking_id, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancels every upcoming occurrence of a series; past ones are left as they are
+CREATE OR REPLACE FUNCTION public.cancel_booking_series(p_series_id UUID)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+  SELECT c.*
+  FROM public.bookings b
+  CROSS JOIN LATERAL public.cancel_booking(b.id) c
+  WHERE b.series_id = p_series_id
+    AND b.status IN ('pending', 'confirmed')
+    AND public.booking_starts_at(b.booking_date, b.time_slot) > NOW();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Moves every upcoming occurrence of a series to another time on the same day
+CREATE OR REPLACE FUNCTION public.reschedule_booking_series(p_series_id UUID, p_time_slot TIME)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT r.*
+  FROM public.bookings b
+  CROSS JOIN LATERAL public.reschedule_booking(b.id, b.booking_date, p_time_slot) r
+  WHERE b.series_id = p_series_id
+    AND b.status IN ('pending', 'confirmed')
+    AND public.booking_starts_at(b.booking_date, b.time_slot) > NOW();
+
+  UPDATE public.booking_series SET time_slot = p_time_slot WHERE id = p_series_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,169 @@
+-- Waitlist for fully booked slots. The first waiting member is booked
+-- automatically (as pending) as soon as a court in that slot frees up.
+CREATE TYPE waitlist_status AS ENUM ('waiting', 'promoted', 'left', 'expired');
+
+CREATE TABLE public.waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  booking_date DATE NOT NULL,
+  time_slot TIME NOT NULL,
+  status waitlist_status NOT NULL DEFAULT 'waiting',
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX waitlist_entries_waiting_key ON public.waitlist_entries (user_id, game_id, booking_date, time_slot)
+WHERE status = 'waiting';
+CREATE INDEX waitlist_entries_slot_idx ON public.waitlist_entries (game_id, booking_date, time_slot, created_at);
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own waitlist entries" ON public.waitlist_entries FOR SELECT USING (
+  user_id = auth.uid() OR public.is_admin()
+);
+
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON public.waitlist_entries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.join_waitlist(p_game_id UUID, p_booking_date DATE, p_time_slot TIME)
+RETURNS TABLE (entry_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_entry_id UUID;
+BEGIN
+  v_error := public.booking_slot_error(auth.uid(), p_game_id, p_booking_date, p_time_slot);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, v_error;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.slot_availability(p_game_id, p_booking_date) a
+    WHERE a.time_slot = p_time_slot AND cardinality(a.free_resource_ids) > 0
+  ) THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_AVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings b
+    WHERE b.user_id = auth.uid()
+      AND b.game_id = p_game_id
+      AND b.booking_date = p_booking_date
+      AND b.time_slot = p_time_slot
+      AND b.status IN ('pending', 'confirmed')
+  ) THEN
+    RETURN QUERY SELECT NULL::uuid, 'ALREADY_BOOKED'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.waitlist_entries (user_id, game_id, booking_date, time_slot)
+  VALUES (auth.uid(), p_game_id, p_booking_date, p_time_slot)
+  RETURNING id INTO v_entry_id;
+
+  RETURN QUERY SELECT v_entry_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::uuid, 'ALREADY_WAITLISTED'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.leave_waitlist(p_entry_id UUID)
+RETURNS TABLE (entry_id UUID, error_code TEXT) AS $$
+BEGIN
+  UPDATE public.waitlist_entries
+  SET status = 'left'
+  WHERE id = p_entry_id AND user_id = auth.uid() AND status = 'waiting';
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT p_entry_id, 'WAITLIST_ENTRY_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT p_entry_id, NULL::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The current user's open waitlist entries with their place in each queue
+CREATE OR REPLACE FUNCTION public.my_waitlist()
+RETURNS TABLE (
+  id UUID,
+  game_id UUID,
+  game_name TEXT,
+  booking_date DATE,
+  time_slot TIME,
+  queue_position INTEGER
+) AS $$
+  SELECT
+    w.id,
+    w.game_id,
+    g.name,
+    w.booking_date,
+    w.time_slot,
+    (
+      SELECT COUNT(*)::integer FROM public.waitlist_entries ahead
+      WHERE ahead.game_id = w.game_id
+        AND ahead.booking_date = w.booking_date
+        AND ahead.time_slot = w.time_slot
+        AND ahead.status = 'waiting'
+        AND ahead.created_at <= w.created_at
+    )
+  FROM public.waitlist_entries w
+  JOIN public.games g ON g.id = w.game_id
+  WHERE w.user_id = auth.uid() AND w.status = 'waiting'
+  ORDER BY w.booking_date, w.time_slot;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Books the freed slot for the first waiting member who can still take it.
+-- Members who no longer qualify (slot passed, quota reached) drop off the list.
+CREATE OR REPLACE FUNCTION public.promote_waitlist(p_game_id UUID, p_booking_date DATE, p_time_slot TIME)
+RETURNS VOID AS $$
+DECLARE
+  v_entry public.waitlist_entries;
+  v_result RECORD;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM public.waitlist_entries
+    WHERE game_id = p_game_id
+      AND booking_date = p_booking_date
+      AND time_slot = p_time_slot
+      AND status = 'waiting'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_result
+    FROM public.insert_booking(v_entry.user_id, p_game_id, p_booking_date, p_time_slot);
+
+    IF v_result.error_code IS NULL THEN
+      UPDATE public.waitlist_entries SET status = 'promoted', booking_id = v_result.booking_id WHERE id = v_entry.id;
+      RETURN;
+    ELSIF v_result.error_code IN ('SLOT_FULL', 'RESOURCE_UNAVAILABLE') THEN
+      RETURN;
+    END IF;
+
+    UPDATE public.waitlist_entries SET status = 'expired' WHERE id = v_entry.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.promote_waitlist(UUID, DATE, TIME) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_release()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IN ('pending', 'confirmed') AND (
+    TG_OP = 'DELETE'
+    OR NEW.status NOT IN ('pending', 'confirmed')
+    OR NEW.booking_date <> OLD.booking_date
+    OR NEW.time_slot <> OLD.time_slot
+    OR NEW.resource_id <> OLD.resource_id
+  ) THEN
+    PERFORM public.promote_waitlist(OLD.game_id, OLD.booking_date, OLD.time_slot);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER promote_waitlist_on_release AFTER UPDATE OR DELETE ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.promote_waitlist_on_release();
@@ -0,0 +1,145 @@
+-- Members and guests pay different rates
+CREATE TYPE membership_type AS ENUM ('member', 'guest');
+
+ALTER TABLE public.profiles ADD COLUMN membership_type membership_type NOT NULL DEFAULT 'member';
+
+-- Base hourly rates per game; guests pay the member rate if no guest rate is set
+ALTER TABLE public.games
+  ADD COLUMN hourly_rate DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (hourly_rate >= 0),
+  ADD COLUMN guest_hourly_rate DECIMAL(10,2) CHECK (guest_hourly_rate >= 0);
+
+-- Peak rules multiply the rate for bookings starting on the given weekdays and
+-- hours; duration rules apply to games whose slots are at least that long.
+-- When several rules of a kind match, the highest multiplier wins.
+CREATE TYPE pricing_rule_type AS ENUM ('peak', 'duration');
+
+CREATE TABLE public.pricing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rule_type pricing_rule_type NOT NULL,
+  weekdays SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  starts_at TIME,
+  ends_at TIME,
+  min_duration_minutes INTEGER,
+  multiplier DECIMAL(5,2) NOT NULL CHECK (multiplier > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (rule_type <> 'peak' OR (starts_at IS NOT NULL AND ends_at IS NOT NULL AND ends_at > starts_at)),
+  CHECK (rule_type <> 'duration' OR min_duration_minutes IS NOT NULL)
+);
+
+ALTER TABLE public.pricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pricing rules" ON public.pricing_rules FOR SELECT USING (true);
+CREATE POLICY "Admins can manage pricing rules" ON public.pricing_rules FOR ALL USING (public.is_admin());
+
+CREATE TRIGGER update_pricing_rules_updated_at BEFORE UPDATE ON public.pricing_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The price the rules produce is kept next to the charged cost, so admin
+-- overrides are visible and must come with a reason
+ALTER TABLE public.bookings
+  ADD COLUMN quoted_price DECIMAL(10,2),
+  ADD COLUMN price_override_reason TEXT;
+
+CREATE OR REPLACE FUNCTION public.compute_booking_price(p_game_id UUID, p_date DATE, p_time TIME, p_user_id UUID)
+RETURNS DECIMAL(10,2) AS $$
+  SELECT ROUND(
+    CASE
+      WHEN p.membership_type = 'guest' THEN COALESCE(g.guest_hourly_rate, g.hourly_rate)
+      ELSE g.hourly_rate
+    END
+    * g.slot_duration_minutes / 60.0
+    * COALESCE((
+        SELECT MAX(r.multiplier) FROM public.pricing_rules r
+        WHERE r.game_id = g.id
+          AND r.is_active
+          AND r.rule_type = 'peak'
+          AND EXTRACT(DOW FROM p_date)::smallint = ANY(r.weekdays)
+          AND p_time >= r.starts_at
+          AND p_time < r.ends_at
+      ), 1)
+    * COALESCE((
+        SELECT MAX(r.multiplier) FROM public.pricing_rules r
+        WHERE r.game_id = g.id
+          AND r.is_active
+          AND r.rule_type = 'duration'
+          AND g.slot_duration_minutes >= r.min_duration_minutes
+      ), 1),
+    2
+  )
+  FROM public.games g
+  LEFT JOIN public.profiles p ON p.id = p_user_id
+  WHERE g.id = p_game_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.quote_booking_price(p_game_id UUID, p_date DATE, p_time TIME)
+RETURNS DECIMAL(10,2) AS $$
+  SELECT public.compute_booking_price(p_game_id, p_date, p_time, auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Prices new and moved bookings, and requires a reason when the charged cost
+-- differs from the computed price. A NULL cost means nothing is charged yet.
+CREATE OR REPLACE FUNCTION public.price_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.booking_date <> OLD.booking_date
+    OR NEW.time_slot <> OLD.time_slot
+  THEN
+    NEW.quoted_price := public.compute_booking_price(NEW.game_id, NEW.booking_date, NEW.time_slot, NEW.user_id);
+    IF TG_OP = 'INSERT' THEN
+      NEW.cost := COALESCE(NEW.cost, NEW.quoted_price);
+    ELSIF NEW.price_override_reason IS NULL THEN
+      NEW.cost := NEW.quoted_price;
+    END IF;
+  END IF;
+
+  IF NEW.cost <> NEW.quoted_price AND NULLIF(TRIM(NEW.price_override_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when overriding the computed price' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER price_booking BEFORE INSERT OR UPDATE ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.price_booking();
+
+-- Membership type is set by admins, like role
+CREATE OR REPLACE FUNCTION public.protect_profile_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id <> OLD.id
+    OR NEW.email <> OLD.email
+    OR NEW.role <> OLD.role
+    OR NEW.membership_type <> OLD.membership_type
+  THEN
+    RAISE EXCEPTION 'Only name can be changed on your profile' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Starting rates
+UPDATE public.games SET hourly_rate = 800, guest_hourly_rate = 1000 WHERE name = 'Cricket';
+UPDATE public.games SET hourly_rate = 300, guest_hourly_rate = 400 WHERE name = 'Badminton';
+UPDATE public.games SET hourly_rate = 150, guest_hourly_rate = 200 WHERE name = 'Table Tennis';
+UPDATE public.games SET hourly_rate = 100, guest_hourly_rate = 150 WHERE name = 'Carrom';
+
+INSERT INTO public.pricing_rules (game_id, name, rule_type, weekdays, starts_at, ends_at, multiplier)
+SELECT id, 'Weekday evenings', 'peak', '{1,2,3,4,5}', '18:00', '21:00', 1.25
+FROM public.games WHERE name IN ('Badminton', 'Table Tennis');
+
+INSERT INTO public.pricing_rules (game_id, name, rule_type, weekdays, starts_at, ends_at, multiplier)
+SELECT id, 'Weekends', 'peak', '{0,6}', '00:00', '23:59', 1.25
+FROM public.games WHERE name IN ('Cricket', 'Badminton');
+
+INSERT INTO public.pricing_rules (game_id, name, rule_type, min_duration_minutes, multiplier)
+SELECT id, '3-hour block discount', 'duration', 180, 0.9
+FROM public.games WHERE name = 'Cricket';
@@ -0,0 +1,87 @@
+-- History of every status, price and slot change on a booking
+CREATE TABLE public.booking_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  old_status booking_status,
+  new_status booking_status,
+  old_cost DECIMAL(10,2),
+  new_cost DECIMAL(10,2),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX booking_events_booking_id_idx ON public.booking_events (booking_id, created_at);
+
+ALTER TABLE public.booking_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by the trigger below; admins may only add free-text notes
+CREATE POLICY "Admins can view booking events" ON public.booking_events FOR SELECT USING (public.is_admin());
+CREATE POLICY "Admins can add booking notes" ON public.booking_events FOR INSERT WITH CHECK (
+  public.is_admin()
+  AND actor_id = auth.uid()
+  AND old_status IS NULL AND new_status IS NULL
+  AND old_cost IS NULL AND new_cost IS NULL
+  AND NULLIF(TRIM(note), '') IS NOT NULL
+);
+
+CREATE OR REPLACE FUNCTION public.record_booking_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_note TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.booking_events (booking_id, actor_id, new_status, new_cost, note)
+    VALUES (NEW.id, auth.uid(), NEW.status, NEW.cost, NEW.price_override_reason);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.cost IS NOT DISTINCT FROM OLD.cost
+    AND NEW.booking_date = OLD.booking_date
+    AND NEW.time_slot = OLD.time_slot
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_note := CONCAT_WS('; ',
+    CASE WHEN NEW.booking_date <> OLD.booking_date OR NEW.time_slot <> OLD.time_slot
+      THEN 'Moved from ' || TO_CHAR(OLD.booking_date, 'DD Mon YYYY') || ' ' || TO_CHAR(OLD.time_slot, 'HH24:MI') END,
+    CASE WHEN NEW.status = 'canceled' AND OLD.status <> 'canceled' AND NEW.cancellation_reason = 'member_late'
+      THEN 'Late cancellation' END,
+    CASE WHEN NEW.cost IS DISTINCT FROM OLD.cost THEN NEW.price_override_reason END
+  );
+
+  INSERT INTO public.booking_events (booking_id, actor_id, old_status, new_status, old_cost, new_cost, note)
+  VALUES (NEW.id, auth.uid(), OLD.status, NEW.status, OLD.cost, NEW.cost, NULLIF(v_note, ''));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_booking_event AFTER INSERT OR UPDATE ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.record_booking_event();
+
+-- Members see when their booking changed status or price, without notes or
+-- who on the staff made the change
+CREATE OR REPLACE FUNCTION public.my_booking_events(p_booking_id UUID)
+RETURNS TABLE (
+  created_at TIMESTAMP WITH TIME ZONE,
+  old_status booking_status,
+  new_status booking_status,
+  old_cost DECIMAL(10,2),
+  new_cost DECIMAL(10,2),
+  by_member BOOLEAN
+) AS $$
+  SELECT e.created_at, e.old_status, e.new_status, e.old_cost, e.new_cost, COALESCE(e.actor_id = b.user_id, false)
+  FROM public.booking_events e
+  JOIN public.bookings b ON b.id = e.booking_id
+  WHERE e.booking_id = p_booking_id
+    AND b.user_id = auth.uid()
+    AND (e.new_status IS NOT NULL OR e.new_cost IS NOT NULL)
+  ORDER BY e.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Existing bookings start their history with their current state
+INSERT INTO public.booking_events (booking_id, actor_id, new_status, new_cost, note, created_at)
+SELECT id, NULL, status, cost, 'Recorded when booking history was introduced', COALESCE(updated_at, created_at)
+FROM public.bookings;
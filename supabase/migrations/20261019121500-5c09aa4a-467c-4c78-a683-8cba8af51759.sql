@@ -0,0 +1,34 @@
+-- Front-desk bookings made by an admin on behalf of a member. They go through
+-- the same checks as member bookings and are confirmed straight away.
+CREATE OR REPLACE FUNCTION public.create_walk_in_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_result RECORD;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RETURN QUERY SELECT NULL::uuid, 'NOT_AUTHORIZED'::text;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RETURN QUERY SELECT NULL::uuid, 'MEMBER_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_result
+  FROM public.insert_booking(p_user_id, p_game_id, p_booking_date, p_time_slot, p_resource_id, p_notes);
+
+  IF v_result.error_code IS NULL THEN
+    UPDATE public.bookings SET status = 'confirmed' WHERE id = v_result.booking_id;
+  END IF;
+
+  RETURN QUERY SELECT v_result.booking_id, v_result.error_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,69 @@
+-- Pending bookings that nobody reviews in time give their slot back
+ALTER TYPE booking_status ADD VALUE IF NOT EXISTS 'expired';
+
+-- A pending booking expires a number of hours after it was made, or a number
+-- of hours before it starts, whichever comes first
+ALTER TABLE public.games
+  ADD COLUMN pending_expiry_hours INTEGER NOT NULL DEFAULT 24 CHECK (pending_expiry_hours > 0),
+  ADD COLUMN pending_cutoff_hours INTEGER NOT NULL DEFAULT 2 CHECK (pending_cutoff_hours >= 0);
+
+-- In-app messages to members about changes they did not make themselves
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX notifications_user_id_idx ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications" ON public.notifications FOR SELECT USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.mark_notifications_read()
+RETURNS VOID AS $$
+  UPDATE public.notifications SET read_at = NOW() WHERE user_id = auth.uid() AND read_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.expire_pending_bookings()
+RETURNS INTEGER AS $$
+DECLARE
+  v_booking RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_booking IN
+    UPDATE public.bookings b
+    SET status = 'expired'
+    FROM public.games g
+    WHERE g.id = b.game_id
+      AND b.status = 'pending'
+      AND (
+        b.created_at + make_interval(hours => g.pending_expiry_hours) <= NOW()
+        OR public.booking_starts_at(b.booking_date, b.time_slot) - make_interval(hours => g.pending_cutoff_hours) <= NOW()
+      )
+    RETURNING b.id, b.user_id, b.booking_date, b.time_slot, g.name AS game_name
+  LOOP
+    INSERT INTO public.notifications (user_id, booking_id, title, body)
+    VALUES (
+      v_booking.user_id,
+      v_booking.id,
+      'Booking expired',
+      v_booking.game_name || ' on ' || TO_CHAR(v_booking.booking_date, 'DD Mon YYYY') || ' at '
+        || TO_CHAR(v_booking.time_slot, 'HH24:MI') || ' was not approved in time and the slot has been released.'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_pending_bookings() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-pending-bookings', '*/5 * * * *', $$SELECT public.expire_pending_bookings()$$);
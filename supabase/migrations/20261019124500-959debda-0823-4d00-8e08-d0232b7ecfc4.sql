@@ -0,0 +1,133 @@
+-- Per-game rules that confirm routine bookings without an admin. A rule
+-- matches when all of its conditions hold; the oldest matching rule wins.
+CREATE TABLE public.auto_approval_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  requires_good_standing BOOLEAN NOT NULL DEFAULT false,
+  off_peak_only BOOLEAN NOT NULL DEFAULT false,
+  max_price DECIMAL(10,2) CHECK (max_price >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (requires_good_standing OR off_peak_only OR max_price IS NOT NULL)
+);
+
+ALTER TABLE public.auto_approval_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage auto-approval rules" ON public.auto_approval_rules FOR ALL USING (public.is_admin());
+
+CREATE TRIGGER update_auto_approval_rules_updated_at BEFORE UPDATE ON public.auto_approval_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.bookings ADD COLUMN auto_approval_rule_id UUID REFERENCES public.auto_approval_rules(id) ON DELETE SET NULL;
+
+-- No no-shows or late cancellations in the last 90 days
+CREATE OR REPLACE FUNCTION public.member_in_good_standing(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE user_id = p_user_id
+      AND booking_date >= CURRENT_DATE - 90
+      AND (status = 'no-show' OR cancellation_reason = 'member_late')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Off-peak means no active peak pricing rule covers the slot
+CREATE OR REPLACE FUNCTION public.is_peak_slot(p_game_id UUID, p_date DATE, p_time TIME)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.pricing_rules
+    WHERE game_id = p_game_id
+      AND is_active
+      AND rule_type = 'peak'
+      AND EXTRACT(DOW FROM p_date)::smallint = ANY(weekdays)
+      AND p_time >= starts_at
+      AND p_time < ends_at
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Runs after price_booking (triggers fire in name order) so quoted_price is set.
+-- Applies to new bookings and to bookings sent back to pending by a reschedule.
+CREATE OR REPLACE FUNCTION public.review_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.booking_date = OLD.booking_date AND NEW.time_slot = OLD.time_slot THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT r.id INTO NEW.auto_approval_rule_id
+  FROM public.auto_approval_rules r
+  WHERE r.game_id = NEW.game_id
+    AND r.is_active
+    AND (NOT r.requires_good_standing OR public.member_in_good_standing(NEW.user_id))
+    AND (NOT r.off_peak_only OR NOT public.is_peak_slot(NEW.game_id, NEW.booking_date, NEW.time_slot))
+    AND (r.max_price IS NULL OR COALESCE(NEW.cost, NEW.quoted_price, 0) <= r.max_price)
+  ORDER BY r.created_at
+  LIMIT 1;
+
+  IF NEW.auto_approval_rule_id IS NOT NULL THEN
+    NEW.status := 'confirmed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER review_booking BEFORE INSERT OR UPDATE ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.review_booking();
+
+-- Auto-confirmations name the rule in the booking history
+CREATE OR REPLACE FUNCTION public.record_booking_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_note TEXT;
+  v_rule_note TEXT;
+BEGIN
+  IF NEW.auto_approval_rule_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.auto_approval_rule_id IS DISTINCT FROM OLD.auto_approval_rule_id OR NEW.status <> OLD.status)
+    AND NEW.status = 'confirmed'
+  THEN
+    SELECT 'Auto-confirmed by rule "' || name || '"' INTO v_rule_note
+    FROM public.auto_approval_rules WHERE id = NEW.auto_approval_rule_id;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.booking_events (booking_id, actor_id, new_status, new_cost, note)
+    VALUES (NEW.id, auth.uid(), NEW.status, NEW.cost, NULLIF(CONCAT_WS('; ', v_rule_note, NEW.price_override_reason), ''));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.cost IS NOT DISTINCT FROM OLD.cost
+    AND NEW.booking_date = OLD.booking_date
+    AND NEW.time_slot = OLD.time_slot
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_note := CONCAT_WS('; ',
+    CASE WHEN NEW.booking_date <> OLD.booking_date OR NEW.time_slot <> OLD.time_slot
+      THEN 'Moved from ' || TO_CHAR(OLD.booking_date, 'DD Mon YYYY') || ' ' || TO_CHAR(OLD.time_slot, 'HH24:MI') END,
+    CASE WHEN NEW.status = 'canceled' AND OLD.status <> 'canceled' AND NEW.cancellation_reason = 'member_late'
+      THEN 'Late cancellation' END,
+    v_rule_note,
+    CASE WHEN NEW.cost IS DISTINCT FROM OLD.cost THEN NEW.price_override_reason END
+  );
+
+  INSERT INTO public.booking_events (booking_id, actor_id, old_status, new_status, old_cost, new_cost, note)
+  VALUES (NEW.id, auth.uid(), OLD.status, NEW.status, OLD.cost, NEW.cost, NULLIF(v_note, ''));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+INSERT INTO public.auto_approval_rules (game_id, name, requires_good_standing)
+SELECT id, 'Members in good standing', true
+FROM public.games WHERE name = 'Carrom';
+
+INSERT INTO public.auto_approval_rules (game_id, name, requires_good_standing, off_peak_only)
+SELECT id, 'Off-peak, good standing', true, true
+FROM public.games WHERE name = 'Table Tennis';
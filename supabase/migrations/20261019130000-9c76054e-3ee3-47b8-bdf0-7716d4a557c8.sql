@@ -0,0 +1,111 @@
+-- Fair-use limits per game and role. A NULL limit means no limit; a role with
+-- no row for a game can book it freely.
+CREATE TABLE public.booking_quotas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  role user_role NOT NULL DEFAULT 'user',
+  max_active_bookings INTEGER CHECK (max_active_bookings > 0),
+  max_hours_per_week INTEGER CHECK (max_hours_per_week > 0),
+  max_bookings_per_day INTEGER CHECK (max_bookings_per_day > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(game_id, role)
+);
+
+ALTER TABLE public.booking_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view booking quotas" ON public.booking_quotas FOR SELECT USING (true);
+CREATE POLICY "Admins can manage booking quotas" ON public.booking_quotas FOR ALL USING (public.is_admin());
+
+CREATE TRIGGER update_booking_quotas_updated_at BEFORE UPDATE ON public.booking_quotas FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A member's limits for a game next to what they have already booked: active
+-- future bookings, hours in the Monday-Sunday week of p_date, and bookings on p_date
+CREATE OR REPLACE FUNCTION public.booking_quota_usage(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  max_active_bookings INTEGER,
+  active_bookings INTEGER,
+  max_hours_per_week INTEGER,
+  week_minutes INTEGER,
+  max_bookings_per_day INTEGER,
+  day_bookings INTEGER
+) AS $$
+  WITH live AS (
+    SELECT b.booking_date, b.time_slot
+    FROM public.bookings b
+    WHERE b.user_id = p_user_id
+      AND b.game_id = p_game_id
+      AND b.status IN ('pending', 'confirmed')
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+  )
+  SELECT
+    q.max_active_bookings,
+    (SELECT COUNT(*)::int FROM live WHERE public.booking_starts_at(live.booking_date, live.time_slot) > NOW()),
+    q.max_hours_per_week,
+    (SELECT COUNT(*)::int FROM live
+      WHERE date_trunc('week', live.booking_date) = date_trunc('week', p_date)) * g.slot_duration_minutes,
+    q.max_bookings_per_day,
+    (SELECT COUNT(*)::int FROM live WHERE live.booking_date = p_date)
+  FROM public.games g
+  JOIN public.profiles p ON p.id = p_user_id
+  LEFT JOIN public.booking_quotas q ON q.game_id = g.id AND q.role = p.role
+  WHERE g.id = p_game_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.booking_quota_error(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_usage RECORD;
+  v_slot_minutes INTEGER;
+BEGIN
+  SELECT * INTO v_usage FROM public.booking_quota_usage(p_user_id, p_game_id, p_date, p_exclude_booking_id);
+  SELECT slot_duration_minutes INTO v_slot_minutes FROM public.games WHERE id = p_game_id;
+
+  IF v_usage.active_bookings >= v_usage.max_active_bookings THEN
+    RETURN 'QUOTA_EXCEEDED';
+  END IF;
+
+  IF v_usage.week_minutes + v_slot_minutes > v_usage.max_hours_per_week * 60 THEN
+    RETURN 'WEEKLY_HOURS_EXCEEDED';
+  END IF;
+
+  IF v_usage.day_bookings >= v_usage.max_bookings_per_day THEN
+    RETURN 'DAILY_LIMIT_EXCEEDED';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.my_booking_quota(p_game_id UUID, p_date DATE)
+RETURNS TABLE (
+  max_active_bookings INTEGER,
+  active_bookings INTEGER,
+  max_hours_per_week INTEGER,
+  week_minutes INTEGER,
+  max_bookings_per_day INTEGER,
+  day_bookings INTEGER
+) AS $$
+  SELECT * FROM public.booking_quota_usage(auth.uid(), p_game_id, p_date);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Members keep the previous limit of five upcoming bookings, now per game,
+-- and badminton courts get weekly and daily caps
+INSERT INTO public.booking_quotas (game_id, role, max_active_bookings)
+SELECT id, 'user', 5 FROM public.games;
+
+UPDATE public.booking_quotas q
+SET max_active_bookings = 3, max_hours_per_week = 3, max_bookings_per_day = 1
+FROM public.games g
+WHERE g.id = q.game_id AND g.name = 'Badminton';
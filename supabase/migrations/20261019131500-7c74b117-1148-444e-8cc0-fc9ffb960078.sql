@@ -0,0 +1,45 @@
+-- How far ahead each game can be booked and how late. With a release time,
+-- the furthest day opens at that time each day instead of at midnight.
+ALTER TABLE public.games
+  ADD COLUMN booking_window_days INTEGER NOT NULL DEFAULT 30 CHECK (booking_window_days >= 0),
+  ADD COLUMN booking_release_time TIME,
+  ADD COLUMN min_lead_minutes INTEGER NOT NULL DEFAULT 0 CHECK (min_lead_minutes >= 0);
+
+CREATE OR REPLACE FUNCTION public.booking_window_error(p_game_id UUID, p_date DATE, p_time TIME)
+RETURNS TEXT AS $$
+DECLARE
+  v_game RECORD;
+  v_local_now TIMESTAMP := NOW() AT TIME ZONE 'Asia/Kolkata';
+  v_last_date DATE;
+BEGIN
+  SELECT booking_window_days, booking_release_time, min_lead_minutes INTO v_game
+  FROM public.games WHERE id = p_game_id;
+
+  IF public.booking_starts_at(p_date, p_time) <= NOW() THEN
+    RETURN 'SLOT_IN_PAST';
+  END IF;
+
+  IF public.booking_starts_at(p_date, p_time) <= NOW() + make_interval(mins => v_game.min_lead_minutes) THEN
+    RETURN 'LEAD_TIME_NOT_MET';
+  END IF;
+
+  v_last_date := v_local_now::date + v_game.booking_window_days;
+  IF v_game.booking_release_time IS NOT NULL AND v_local_now::time < v_game.booking_release_time THEN
+    v_last_date := v_last_date - 1;
+  END IF;
+
+  IF p_date > v_last_date THEN
+    RETURN 'OUTSIDE_BOOKING_WINDOW';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Courts are released two weeks ahead every morning; the rest keep 30 days
+UPDATE public.games SET booking_window_days = 14, booking_release_time = '08:00', min_lead_minutes = 60
+WHERE name = 'Badminton';
+
+UPDATE public.games SET min_lead_minutes = 30 WHERE name IN ('Carrom', 'Table Tennis');
+
+UPDATE public.games SET min_lead_minutes = 180 WHERE name = 'Cricket';
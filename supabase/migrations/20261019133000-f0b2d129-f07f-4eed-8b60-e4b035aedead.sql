@@ -0,0 +1,249 @@
+-- Date ranges when the club, a game or a single court cannot be booked:
+-- holidays, maintenance, re-turfing. Without hours a closure covers whole days.
+CREATE TABLE public.game_closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID REFERENCES public.games(id) ON DELETE CASCADE,
+  resource_id UUID REFERENCES public.game_resources(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date >= start_date),
+  CHECK ((start_time IS NULL AND end_time IS NULL) OR end_time > start_time),
+  CHECK (resource_id IS NULL OR game_id IS NOT NULL)
+);
+
+CREATE INDEX game_closures_dates_idx ON public.game_closures (start_date, end_date);
+
+ALTER TABLE public.game_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view closures" ON public.game_closures FOR SELECT USING (true);
+CREATE POLICY "Admins can manage closures" ON public.game_closures FOR ALL USING (public.is_admin());
+
+CREATE TRIGGER update_game_closures_updated_at BEFORE UPDATE ON public.game_closures FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Whether a closure covers a resource's slot. A closure without a game applies
+-- to every game, and one with hours covers any slot that overlaps them.
+CREATE OR REPLACE FUNCTION public.closure_covers_slot(
+  p_closure public.game_closures,
+  p_game_id UUID,
+  p_resource_id UUID,
+  p_date DATE,
+  p_time TIME
+)
+RETURNS BOOLEAN AS $$
+  SELECT (p_closure.game_id IS NULL OR p_closure.game_id = p_game_id)
+    AND (p_closure.resource_id IS NULL OR p_closure.resource_id = p_resource_id)
+    AND p_date BETWEEN p_closure.start_date AND p_closure.end_date
+    AND (
+      p_closure.start_time IS NULL
+      OR (
+        p_time < p_closure.end_time
+        AND p_date + p_time + make_interval(mins => (SELECT slot_duration_minutes FROM public.games WHERE id = p_game_id))
+          > p_date + p_closure.start_time
+      )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Reason a resource is closed for the slot, or NULL if it is open
+CREATE OR REPLACE FUNCTION public.slot_closure_reason(p_game_id UUID, p_resource_id UUID, p_date DATE, p_time TIME)
+RETURNS TEXT AS $$
+  SELECT c.reason
+  FROM public.game_closures c
+  WHERE public.closure_covers_slot(c, p_game_id, p_resource_id, p_date, p_time)
+  ORDER BY c.created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Closed courts are no longer free. The closure reason is only reported when
+-- every court is closed; a partial closure just lowers the free count.
+DROP FUNCTION public.slot_availability(UUID, DATE);
+
+CREATE OR REPLACE FUNCTION public.slot_availability(p_game_id UUID, p_date DATE)
+RETURNS TABLE (time_slot TIME, total_resources INTEGER, free_resource_ids UUID[], closure_reason TEXT) AS $$
+  SELECT
+    s.slot,
+    (SELECT COUNT(*)::integer FROM public.game_resources r WHERE r.game_id = p_game_id AND r.is_active),
+    COALESCE(
+      (
+        SELECT array_agg(r.id ORDER BY r.name)
+        FROM public.game_resources r
+        WHERE r.game_id = p_game_id
+          AND r.is_active
+          AND public.slot_closure_reason(p_game_id, r.id, p_date, s.slot) IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM public.bookings b
+            WHERE b.resource_id = r.id
+              AND b.booking_date = p_date
+              AND b.time_slot = s.slot
+              AND b.status IN ('pending', 'confirmed')
+          )
+      ),
+      '{}'
+    ),
+    CASE WHEN NOT EXISTS (
+      SELECT 1 FROM public.game_resources r
+      WHERE r.game_id = p_game_id
+        AND r.is_active
+        AND public.slot_closure_reason(p_game_id, r.id, p_date, s.slot) IS NULL
+    ) THEN (
+      SELECT public.slot_closure_reason(p_game_id, r.id, p_date, s.slot)
+      FROM public.game_resources r
+      WHERE r.game_id = p_game_id AND r.is_active
+      ORDER BY r.name
+      LIMIT 1
+    ) END
+  FROM public.game_time_slots(p_game_id, p_date) AS s(slot);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.booking_slot_error(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_is_active BOOLEAN;
+  v_error TEXT;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT is_active INTO v_is_active FROM public.games WHERE id = p_game_id;
+  IF NOT FOUND THEN
+    RETURN 'GAME_NOT_FOUND';
+  END IF;
+  IF NOT COALESCE(v_is_active, false) THEN
+    RETURN 'GAME_INACTIVE';
+  END IF;
+
+  IF p_time IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.game_time_slots(p_game_id, p_date) AS s(slot) WHERE s.slot = p_time
+  ) THEN
+    RETURN 'INVALID_SLOT';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.slot_availability(p_game_id, p_date) a
+    WHERE a.time_slot = p_time AND a.closure_reason IS NOT NULL
+  ) THEN
+    RETURN 'SLOT_CLOSED';
+  END IF;
+
+  v_error := public.booking_window_error(p_game_id, p_date, p_time);
+  IF v_error IS NOT NULL THEN
+    RETURN v_error;
+  END IF;
+
+  RETURN public.booking_quota_error(p_user_id, p_game_id, p_date, p_time, p_exclude_booking_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Never assign a closed court
+CREATE OR REPLACE FUNCTION public.assign_booking_resource()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.resource_id IS NULL THEN
+    SELECT r.id INTO NEW.resource_id
+    FROM public.game_resources r
+    WHERE r.game_id = NEW.game_id
+      AND r.is_active
+      AND public.slot_closure_reason(NEW.game_id, r.id, NEW.booking_date, NEW.time_slot) IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bookings b
+        WHERE b.resource_id = r.id
+          AND b.booking_date = NEW.booking_date
+          AND b.time_slot = NEW.time_slot
+          AND b.status IN ('pending', 'confirmed')
+      )
+    ORDER BY r.name
+    LIMIT 1;
+
+    IF NEW.resource_id IS NULL THEN
+      RAISE EXCEPTION 'No free resource for this slot' USING ERRCODE = '23505';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.game_resources r WHERE r.id = NEW.resource_id AND r.game_id = NEW.game_id
+  ) THEN
+    RAISE EXCEPTION 'Resource does not belong to this game' USING ERRCODE = '23503';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Upcoming live bookings that fall inside a closure, for admins to review
+CREATE OR REPLACE FUNCTION public.closure_clashes(p_closure_id UUID)
+RETURNS TABLE (
+  booking_id UUID,
+  member_name TEXT,
+  game_name TEXT,
+  resource_name TEXT,
+  booking_date DATE,
+  time_slot TIME,
+  status booking_status
+) AS $$
+  SELECT b.id, p.name, g.name, r.name, b.booking_date, b.time_slot, b.status
+  FROM public.game_closures c
+  JOIN public.bookings b ON public.closure_covers_slot(c, b.game_id, b.resource_id, b.booking_date, b.time_slot)
+  JOIN public.profiles p ON p.id = b.user_id
+  JOIN public.games g ON g.id = b.game_id
+  JOIN public.game_resources r ON r.id = b.resource_id
+  WHERE c.id = p_closure_id
+    AND public.is_admin()
+    AND b.status IN ('pending', 'confirmed')
+    AND public.booking_starts_at(b.booking_date, b.time_slot) > NOW()
+  ORDER BY b.booking_date, b.time_slot, g.name, r.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Cancels every clashing booking and tells each member why
+CREATE OR REPLACE FUNCTION public.cancel_closure_bookings(p_closure_id UUID)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_closure public.game_closures;
+  v_booking RECORD;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RETURN QUERY SELECT NULL::uuid, 'NOT_AUTHORIZED'::text;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_closure FROM public.game_closures WHERE id = p_closure_id;
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::uuid, 'CLOSURE_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  FOR v_booking IN
+    UPDATE public.bookings b
+    SET status = 'canceled', cancellation_reason = 'admin'
+    FROM public.games g
+    WHERE g.id = b.game_id
+      AND b.status IN ('pending', 'confirmed')
+      AND public.booking_starts_at(b.booking_date, b.time_slot) > NOW()
+      AND public.closure_covers_slot(v_closure, b.game_id, b.resource_id, b.booking_date, b.time_slot)
+    RETURNING b.id, b.user_id, b.booking_date, b.time_slot, g.name AS game_name
+  LOOP
+    INSERT INTO public.booking_events (booking_id, actor_id, note)
+    VALUES (v_booking.id, auth.uid(), 'Canceled for closure: ' || v_closure.reason);
+
+    INSERT INTO public.notifications (user_id, booking_id, title, body)
+    VALUES (
+      v_booking.user_id,
+      v_booking.id,
+      'Booking canceled',
+      v_booking.game_name || ' on ' || TO_CHAR(v_booking.booking_date, 'DD Mon YYYY') || ' at '
+        || TO_CHAR(v_booking.time_slot, 'HH24:MI') || ' was canceled because the club is closed: ' || v_closure.reason || '.'
+    );
+
+    RETURN QUERY SELECT v_booking.id, NULL::text;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,209 @@
+-- Outdoor games can be rained off
+ALTER TABLE public.games ADD COLUMN is_outdoor BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.games SET is_outdoor = true WHERE name = 'Cricket';
+
+-- Weather is the club's call, so it never counts against the member
+ALTER TYPE cancellation_reason ADD VALUE IF NOT EXISTS 'weather';
+
+-- Washed-out hours are closed like any other closure, but flagged so they can
+-- be told apart from planned maintenance
+ALTER TABLE public.game_closures ADD COLUMN is_weather BOOLEAN NOT NULL DEFAULT false;
+
+-- Links a rebooking to the rained-off booking it replaces
+ALTER TABLE public.bookings ADD COLUMN rebooked_from_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL;
+
+CREATE INDEX bookings_rebooked_from_id_idx ON public.bookings (rebooked_from_id);
+
+-- Money the club owes members. Positive amounts are credits, negative amounts
+-- are credit spent or refunded; the balance is the sum.
+CREATE TABLE public.member_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0),
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX member_credits_user_id_idx ON public.member_credits (user_id, created_at DESC);
+
+ALTER TABLE public.member_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own credits" ON public.member_credits FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Admins can manage credits" ON public.member_credits FOR ALL USING (public.is_admin());
+
+-- Closes an outdoor game for a washed-out date or part of it, cancels the
+-- bookings inside it, credits what members were charged and tells them
+CREATE OR REPLACE FUNCTION public.declare_weather_cancellation(
+  p_game_id UUID,
+  p_date DATE,
+  p_start_time TIME DEFAULT NULL,
+  p_end_time TIME DEFAULT NULL,
+  p_reason TEXT DEFAULT 'Rain'
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_is_outdoor BOOLEAN;
+  v_closure public.game_closures;
+  v_booking RECORD;
+  v_credit_note TEXT;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RETURN QUERY SELECT NULL::uuid, 'NOT_AUTHORIZED'::text;
+    RETURN;
+  END IF;
+
+  SELECT is_outdoor INTO v_is_outdoor FROM public.games WHERE id = p_game_id;
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::uuid, 'GAME_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+  IF NOT v_is_outdoor THEN
+    RETURN QUERY SELECT NULL::uuid, 'GAME_NOT_OUTDOOR'::text;
+    RETURN;
+  END IF;
+
+  IF (p_start_time IS NULL) <> (p_end_time IS NULL) OR p_end_time <= p_start_time THEN
+    RETURN QUERY SELECT NULL::uuid, 'INVALID_TIME_RANGE'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.game_closures (game_id, start_date, end_date, start_time, end_time, reason, is_weather)
+  VALUES (p_game_id, p_date, p_date, p_start_time, p_end_time, COALESCE(NULLIF(TRIM(p_reason), ''), 'Rain'), true)
+  RETURNING * INTO v_closure;
+
+  -- Slots that already started are included: rain often stops play midway
+  FOR v_booking IN
+    SELECT b.id, b.user_id, b.booking_date, b.time_slot, b.status, b.cost, g.name AS game_name
+    FROM public.bookings b
+    JOIN public.games g ON g.id = b.game_id
+    WHERE b.status IN ('pending', 'confirmed')
+      AND public.closure_covers_slot(v_closure, b.game_id, b.resource_id, b.booking_date, b.time_slot)
+    FOR UPDATE OF b
+  LOOP
+    UPDATE public.bookings
+    SET status = 'canceled', cancellation_reason = 'weather'
+    WHERE id = v_booking.id;
+
+    INSERT INTO public.booking_events (booking_id, actor_id, note)
+    VALUES (v_booking.id, auth.uid(), 'Weather cancellation: ' || v_closure.reason);
+
+    -- Only confirmed bookings have been charged
+    v_credit_note := NULL;
+    IF v_booking.status = 'confirmed' AND v_booking.cost > 0 THEN
+      INSERT INTO public.member_credits (user_id, booking_id, amount, reason)
+      VALUES (v_booking.user_id, v_booking.id, v_booking.cost, 'Weather cancellation: ' || v_closure.reason);
+      v_credit_note := ' ₹' || v_booking.cost || ' has been credited to your account.';
+    END IF;
+
+    INSERT INTO public.notifications (user_id, booking_id, title, body)
+    VALUES (
+      v_booking.user_id,
+      v_booking.id,
+      'Booking rained off',
+      v_booking.game_name || ' on ' || TO_CHAR(v_booking.booking_date, 'DD Mon YYYY') || ' at '
+        || TO_CHAR(v_booking.time_slot, 'HH24:MI') || ' was canceled due to weather (' || v_closure.reason || ').'
+        || COALESCE(v_credit_note, '') || ' You can rebook from your dashboard.'
+    );
+
+    RETURN QUERY SELECT v_booking.id, NULL::text;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The earliest slots the current user could book right now
+CREATE OR REPLACE FUNCTION public.next_free_slots(p_game_id UUID, p_limit INTEGER DEFAULT 3)
+RETURNS TABLE (booking_date DATE, time_slot TIME) AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_window_days INTEGER;
+  v_limit INTEGER := LEAST(GREATEST(p_limit, 1), 10);
+  v_found INTEGER := 0;
+  v_slot RECORD;
+BEGIN
+  SELECT booking_window_days INTO v_window_days FROM public.games WHERE id = p_game_id;
+
+  FOR i IN 0..COALESCE(v_window_days, -1) LOOP
+    FOR v_slot IN
+      SELECT a.time_slot
+      FROM public.slot_availability(p_game_id, v_today + i) a
+      WHERE cardinality(a.free_resource_ids) > 0
+      ORDER BY a.time_slot
+    LOOP
+      IF public.booking_slot_error(auth.uid(), p_game_id, v_today + i, v_slot.time_slot) IS NULL THEN
+        booking_date := v_today + i;
+        time_slot := v_slot.time_slot;
+        RETURN NEXT;
+        v_found := v_found + 1;
+        IF v_found >= v_limit THEN
+          RETURN;
+        END IF;
+      END IF;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Rained-off bookings of the current user that have not been rebooked yet
+CREATE OR REPLACE FUNCTION public.my_rained_off_bookings()
+RETURNS TABLE (booking_id UUID, game_id UUID, game_name TEXT, booking_date DATE, time_slot TIME, canceled_at TIMESTAMP WITH TIME ZONE) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT b.id, b.game_id, g.name, b.booking_date, b.time_slot, b.canceled_at
+  FROM public.bookings b
+  JOIN public.games g ON g.id = b.game_id
+  WHERE b.user_id = auth.uid()
+    AND b.status = 'canceled'
+    AND b.cancellation_reason = 'weather'
+    AND b.canceled_at > NOW() - INTERVAL '14 days'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.bookings r
+      WHERE r.rebooked_from_id = b.id AND r.status IN ('pending', 'confirmed')
+    )
+  ORDER BY b.canceled_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Books a new slot in place of a rained-off booking
+CREATE OR REPLACE FUNCTION public.rebook_rained_off_booking(
+  p_booking_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking public.bookings;
+  v_result RECORD;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  IF v_booking.id IS NULL OR v_booking.user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN QUERY SELECT NULL::uuid, 'BOOKING_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  IF v_booking.status <> 'canceled' OR v_booking.cancellation_reason IS DISTINCT FROM 'weather' THEN
+    RETURN QUERY SELECT NULL::uuid, 'BOOKING_NOT_CHANGEABLE'::text;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings r
+    WHERE r.rebooked_from_id = p_booking_id AND r.status IN ('pending', 'confirmed')
+  ) THEN
+    RETURN QUERY SELECT NULL::uuid, 'ALREADY_REBOOKED'::text;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_result
+  FROM public.insert_booking(auth.uid(), v_booking.game_id, p_booking_date, p_time_slot);
+
+  IF v_result.error_code IS NULL THEN
+    UPDATE public.bookings SET rebooked_from_id = p_booking_id WHERE id = v_result.booking_id;
+  END IF;
+
+  RETURN QUERY SELECT v_result.booking_id, v_result.error_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,129 @@
+-- Front-desk check-in. Confirmed bookings that nobody checks in within the
+-- grace period after the start are marked as no-shows.
+ALTER TABLE public.bookings
+  ADD COLUMN checked_in_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN checked_in_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.games
+  ADD COLUMN no_show_grace_minutes INTEGER NOT NULL DEFAULT 15 CHECK (no_show_grace_minutes >= 0);
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Key that signs check-in codes. RLS without policies keeps it server-side;
+-- created_at doubles as the moment check-in went live.
+CREATE TABLE public.check_in_keys (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.check_in_keys ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.check_in_keys FROM anon, authenticated;
+
+INSERT INTO public.check_in_keys DEFAULT VALUES;
+
+-- Check-in code for a booking: its id and a truncated HMAC of the id
+CREATE OR REPLACE FUNCTION public.sign_booking_token(p_booking_id UUID)
+RETURNS TEXT AS $$
+  SELECT p_booking_id::text || '.' || LEFT(encode(extensions.hmac(p_booking_id::text, encode(k.secret, 'hex'), 'sha256'), 'hex'), 16)
+  FROM public.check_in_keys k;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sign_booking_token(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The code shown to the member as a QR code; NULL unless the booking is theirs and confirmed
+CREATE OR REPLACE FUNCTION public.booking_check_in_token(p_booking_id UUID)
+RETURNS TEXT AS $$
+  SELECT public.sign_booking_token(b.id)
+  FROM public.bookings b
+  WHERE b.id = p_booking_id
+    AND b.user_id = auth.uid()
+    AND b.status = 'confirmed';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_in_booking(p_token TEXT)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking_id UUID;
+  v_booking public.bookings;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RETURN QUERY SELECT NULL::uuid, 'NOT_AUTHORIZED'::text;
+    RETURN;
+  END IF;
+
+  BEGIN
+    v_booking_id := split_part(TRIM(p_token), '.', 1)::uuid;
+  EXCEPTION
+    WHEN invalid_text_representation THEN
+      v_booking_id := NULL;
+  END;
+
+  IF v_booking_id IS NULL OR public.sign_booking_token(v_booking_id) <> TRIM(p_token) THEN
+    RETURN QUERY SELECT NULL::uuid, 'INVALID_CHECK_IN_CODE'::text;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = v_booking_id FOR UPDATE;
+
+  IF v_booking.checked_in_at IS NOT NULL THEN
+    RETURN QUERY SELECT v_booking_id, 'ALREADY_CHECKED_IN'::text;
+    RETURN;
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RETURN QUERY SELECT v_booking_id, 'BOOKING_NOT_CONFIRMED'::text;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date <> (NOW() AT TIME ZONE 'Asia/Kolkata')::date THEN
+    RETURN QUERY SELECT v_booking_id, 'NOT_BOOKING_DAY'::text;
+    RETURN;
+  END IF;
+
+  UPDATE public.bookings
+  SET checked_in_at = NOW(), checked_in_by = auth.uid()
+  WHERE id = v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, NULL::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Bookings that started before check-in went live are left alone: their
+-- members never had a code to show
+CREATE OR REPLACE FUNCTION public.mark_no_shows()
+RETURNS INTEGER AS $$
+DECLARE
+  v_booking RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_booking IN
+    UPDATE public.bookings b
+    SET status = 'no-show'
+    FROM public.games g
+    WHERE g.id = b.game_id
+      AND b.status = 'confirmed'
+      AND b.checked_in_at IS NULL
+      AND public.booking_starts_at(b.booking_date, b.time_slot) >= (SELECT created_at FROM public.check_in_keys)
+      AND public.booking_starts_at(b.booking_date, b.time_slot) + make_interval(mins => g.no_show_grace_minutes) <= NOW()
+    RETURNING b.id, b.user_id, b.booking_date, b.time_slot, g.name AS game_name
+  LOOP
+    INSERT INTO public.notifications (user_id, booking_id, title, body)
+    VALUES (
+      v_booking.user_id,
+      v_booking.id,
+      'Marked as no-show',
+      v_booking.game_name || ' on ' || TO_CHAR(v_booking.booking_date, 'DD Mon YYYY') || ' at '
+        || TO_CHAR(v_booking.time_slot, 'HH24:MI') || ' was not checked in at the front desk.'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.mark_no_shows() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('mark-no-shows', '*/5 * * * *', $$SELECT public.mark_no_shows()$$);
@@ -0,0 +1,231 @@
+-- Member standing. No-shows and late cancellations inside a rolling window add
+-- up to points; crossing a threshold warns the member, sends their bookings to
+-- an admin for approval, or suspends self-service booking for a while.
+CREATE TABLE public.standing_policy (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  window_days INTEGER NOT NULL DEFAULT 90 CHECK (window_days > 0),
+  no_show_points INTEGER NOT NULL DEFAULT 2 CHECK (no_show_points >= 0),
+  late_cancellation_points INTEGER NOT NULL DEFAULT 1 CHECK (late_cancellation_points >= 0),
+  warning_points INTEGER NOT NULL DEFAULT 1 CHECK (warning_points > 0),
+  approval_points INTEGER NOT NULL DEFAULT 4,
+  suspension_points INTEGER NOT NULL DEFAULT 6,
+  suspension_days INTEGER NOT NULL DEFAULT 14 CHECK (suspension_days > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (warning_points <= approval_points AND approval_points <= suspension_points)
+);
+
+ALTER TABLE public.standing_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view the standing policy" ON public.standing_policy FOR SELECT USING (true);
+CREATE POLICY "Admins can update the standing policy" ON public.standing_policy FOR UPDATE USING (public.is_admin());
+
+CREATE TRIGGER update_standing_policy_updated_at BEFORE UPDATE ON public.standing_policy FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO public.standing_policy DEFAULT VALUES;
+
+-- Standing is 'good', 'warning', 'approval' or 'suspended'. A late cancellation
+-- counts from the day it was made, a no-show from the day of the booking. A
+-- suspension runs for suspension_days from the latest incident; suspended_until
+-- is the first day the member can book again.
+CREATE OR REPLACE FUNCTION public.compute_member_standing(p_user_id UUID)
+RETURNS TABLE (
+  standing TEXT,
+  points INTEGER,
+  no_shows INTEGER,
+  late_cancellations INTEGER,
+  suspended_until DATE
+) AS $$
+  WITH incidents AS (
+    SELECT
+      b.status = 'no-show' AS is_no_show,
+      CASE WHEN b.status = 'no-show' THEN b.booking_date
+        ELSE (b.canceled_at AT TIME ZONE 'Asia/Kolkata')::date END AS incident_date
+    FROM public.bookings b
+    WHERE b.user_id = p_user_id
+      AND (b.status = 'no-show' OR b.cancellation_reason = 'member_late')
+  ),
+  tally AS (
+    SELECT
+      COUNT(*) FILTER (WHERE i.is_no_show)::int AS no_shows,
+      COUNT(*) FILTER (WHERE NOT i.is_no_show)::int AS late_cancellations,
+      MAX(i.incident_date) AS last_incident_date
+    FROM incidents i, public.standing_policy p
+    WHERE i.incident_date > (NOW() AT TIME ZONE 'Asia/Kolkata')::date - p.window_days
+  ),
+  scored AS (
+    SELECT
+      t.no_shows,
+      t.late_cancellations,
+      t.no_shows * p.no_show_points + t.late_cancellations * p.late_cancellation_points AS points,
+      t.last_incident_date + p.suspension_days AS suspension_end,
+      p.warning_points,
+      p.approval_points,
+      p.suspension_points
+    FROM tally t, public.standing_policy p
+  )
+  SELECT
+    CASE
+      WHEN s.points >= s.suspension_points AND s.suspension_end > (NOW() AT TIME ZONE 'Asia/Kolkata')::date THEN 'suspended'
+      WHEN s.points >= s.approval_points THEN 'approval'
+      WHEN s.points >= s.warning_points THEN 'warning'
+      ELSE 'good'
+    END,
+    s.points,
+    s.no_shows,
+    s.late_cancellations,
+    CASE WHEN s.points >= s.suspension_points AND s.suspension_end > (NOW() AT TIME ZONE 'Asia/Kolkata')::date
+      THEN s.suspension_end END
+  FROM scored s;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.compute_member_standing(UUID) FROM PUBLIC, anon, authenticated;
+
+-- A member's own standing, or anyone's for admins
+CREATE OR REPLACE FUNCTION public.member_standing(p_user_id UUID)
+RETURNS TABLE (
+  standing TEXT,
+  points INTEGER,
+  no_shows INTEGER,
+  late_cancellations INTEGER,
+  suspended_until DATE
+) AS $$
+  SELECT * FROM public.compute_member_standing(p_user_id)
+  WHERE p_user_id = auth.uid() OR public.is_admin();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Auto-approval rules that require good standing now follow the policy
+CREATE OR REPLACE FUNCTION public.member_in_good_standing(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT standing = 'good' FROM public.compute_member_standing(p_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Suspended members cannot make new bookings themselves; admins can still book
+-- for them at the desk and existing bookings can still be moved
+CREATE OR REPLACE FUNCTION public.booking_slot_error(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_is_active BOOLEAN;
+  v_error TEXT;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN 'NOT_AUTHENTICATED';
+  END IF;
+
+  IF p_exclude_booking_id IS NULL AND NOT public.is_admin()
+    AND (SELECT standing FROM public.compute_member_standing(p_user_id)) = 'suspended'
+  THEN
+    RETURN 'MEMBER_SUSPENDED';
+  END IF;
+
+  SELECT is_active INTO v_is_active FROM public.games WHERE id = p_game_id;
+  IF NOT FOUND THEN
+    RETURN 'GAME_NOT_FOUND';
+  END IF;
+  IF NOT COALESCE(v_is_active, false) THEN
+    RETURN 'GAME_INACTIVE';
+  END IF;
+
+  IF p_time IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.game_time_slots(p_game_id, p_date) AS s(slot) WHERE s.slot = p_time
+  ) THEN
+    RETURN 'INVALID_SLOT';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.slot_availability(p_game_id, p_date) a
+    WHERE a.time_slot = p_time AND a.closure_reason IS NOT NULL
+  ) THEN
+    RETURN 'SLOT_CLOSED';
+  END IF;
+
+  v_error := public.booking_window_error(p_game_id, p_date, p_time);
+  IF v_error IS NOT NULL THEN
+    RETURN v_error;
+  END IF;
+
+  RETURN public.booking_quota_error(p_user_id, p_game_id, p_date, p_time, p_exclude_booking_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Members at the approval threshold always wait for an admin, whatever the rules say
+CREATE OR REPLACE FUNCTION public.review_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.booking_date = OLD.booking_date AND NEW.time_slot = OLD.time_slot THEN
+    RETURN NEW;
+  END IF;
+
+  IF (SELECT standing FROM public.compute_member_standing(NEW.user_id)) IN ('approval', 'suspended') THEN
+    NEW.auto_approval_rule_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT r.id INTO NEW.auto_approval_rule_id
+  FROM public.auto_approval_rules r
+  WHERE r.game_id = NEW.game_id
+    AND r.is_active
+    AND (NOT r.requires_good_standing OR public.member_in_good_standing(NEW.user_id))
+    AND (NOT r.off_peak_only OR NOT public.is_peak_slot(NEW.game_id, NEW.booking_date, NEW.time_slot))
+    AND (r.max_price IS NULL OR COALESCE(NEW.cost, NEW.quoted_price, 0) <= r.max_price)
+  ORDER BY r.created_at
+  LIMIT 1;
+
+  IF NEW.auto_approval_rule_id IS NOT NULL THEN
+    NEW.status := 'confirmed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tells the member where they stand after each no-show or late cancellation
+CREATE OR REPLACE FUNCTION public.notify_standing_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_standing RECORD;
+BEGIN
+  IF NOT (
+    (NEW.status = 'no-show' AND OLD.status <> 'no-show')
+    OR (NEW.cancellation_reason IS NOT DISTINCT FROM 'member_late' AND OLD.cancellation_reason IS DISTINCT FROM 'member_late')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_standing FROM public.compute_member_standing(NEW.user_id);
+  IF v_standing.standing = 'good' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, booking_id, title, body)
+  VALUES (
+    NEW.user_id,
+    NEW.id,
+    CASE v_standing.standing
+      WHEN 'suspended' THEN 'Booking suspended'
+      WHEN 'approval' THEN 'Bookings now need approval'
+      ELSE 'Standing warning'
+    END,
+    CASE v_standing.standing
+      WHEN 'suspended' THEN 'After repeated no-shows and late cancellations you can book again from '
+        || TO_CHAR(v_standing.suspended_until, 'DD Mon YYYY') || '.'
+      WHEN 'approval' THEN 'After recent no-shows and late cancellations an admin will review your new bookings.'
+      ELSE 'No-shows and late cancellations count against your standing. More of them will mean your bookings need approval.'
+    END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_standing_change AFTER UPDATE ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.notify_standing_change();
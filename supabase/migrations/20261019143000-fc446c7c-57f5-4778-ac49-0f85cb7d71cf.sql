@@ -0,0 +1,55 @@
+-- Profile settings members manage themselves. Email and SMS preferences are for
+-- outgoing messages; in-app notifications are always kept.
+ALTER TABLE public.profiles
+  ADD COLUMN phone TEXT CHECK (phone ~ '^\+?[0-9][0-9 -]{6,19}$'),
+  ADD COLUMN avatar_url TEXT,
+  ADD COLUMN notify_by_email BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN notify_by_sms BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.protect_profile_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id <> OLD.id
+    OR NEW.email <> OLD.email
+    OR NEW.role <> OLD.role
+    OR NEW.membership_type <> OLD.membership_type
+  THEN
+    RAISE EXCEPTION 'Only your name, phone, photo and notification settings can be changed' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Email changes go through Supabase Auth; the profile follows once the new address is confirmed
+CREATE OR REPLACE FUNCTION public.handle_user_email_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.profiles SET email = NEW.email WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.email IS DISTINCT FROM OLD.email)
+  EXECUTE FUNCTION public.handle_user_email_change();
+
+-- Profile photos, one folder per member
+INSERT INTO storage.buckets (id, name, public) VALUES ('avatars', 'avatars', true);
+
+CREATE POLICY "Anyone can view avatars" ON storage.objects FOR SELECT USING (bucket_id = 'avatars');
+CREATE POLICY "Users can upload own avatar" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+CREATE POLICY "Users can replace own avatar" ON storage.objects FOR UPDATE USING (
+  bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+CREATE POLICY "Users can delete own avatar" ON storage.objects FOR DELETE USING (
+  bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,47 @@
+-- Realtime feed of slot occupancy. Members cannot read each other's bookings, so
+-- Realtime would never send them those changes; BookSlot listens here instead.
+-- One row per slot a booking takes or frees, with nothing about who booked it.
+CREATE TABLE public.slot_changes (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  booking_date DATE NOT NULL,
+  time_slot TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.slot_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view slot changes" ON public.slot_changes FOR SELECT USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.slot_changes;
+
+CREATE OR REPLACE FUNCTION public.publish_slot_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_was_live BOOLEAN := TG_OP <> 'INSERT' AND OLD.status IN ('pending', 'confirmed');
+  v_is_live BOOLEAN := TG_OP <> 'DELETE' AND NEW.status IN ('pending', 'confirmed');
+  v_moved BOOLEAN := TG_OP = 'UPDATE' AND (
+    NEW.game_id <> OLD.game_id
+    OR NEW.booking_date <> OLD.booking_date
+    OR NEW.time_slot <> OLD.time_slot
+    OR NEW.resource_id <> OLD.resource_id
+  );
+BEGIN
+  IF v_was_live AND (NOT v_is_live OR v_moved) THEN
+    INSERT INTO public.slot_changes (game_id, booking_date, time_slot)
+    VALUES (OLD.game_id, OLD.booking_date, OLD.time_slot);
+  END IF;
+
+  IF v_is_live AND (NOT v_was_live OR v_moved) THEN
+    INSERT INTO public.slot_changes (game_id, booking_date, time_slot)
+    VALUES (NEW.game_id, NEW.booking_date, NEW.time_slot);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER publish_slot_change AFTER INSERT OR UPDATE OR DELETE ON public.bookings FOR EACH ROW EXECUTE FUNCTION public.publish_slot_change();
+
+-- Subscribers only need recent rows
+SELECT cron.schedule('prune-slot-changes', '0 3 * * *', $$DELETE FROM public.slot_changes WHERE created_at < NOW() - interval '1 day'$$);
@@ -0,0 +1,277 @@
+-- Short-lived holds on a court while a member checks out. One hold per member:
+-- picking another slot moves it. Expired holds are ignored and swept every minute.
+CREATE TABLE public.slot_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  resource_id UUID NOT NULL REFERENCES public.game_resources(id) ON DELETE CASCADE,
+  booking_date DATE NOT NULL,
+  time_slot TIME NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (resource_id, booking_date, time_slot)
+);
+
+ALTER TABLE public.slot_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own slot holds" ON public.slot_holds FOR SELECT USING (
+  user_id = auth.uid() OR public.is_admin()
+);
+
+-- Courts held by someone else count as taken; the member's own hold stays free to them
+CREATE OR REPLACE FUNCTION public.slot_availability(p_game_id UUID, p_date DATE)
+RETURNS TABLE (time_slot TIME, total_resources INTEGER, free_resource_ids UUID[], closure_reason TEXT) AS $$
+  SELECT
+    s.slot,
+    (SELECT COUNT(*)::integer FROM public.game_resources r WHERE r.game_id = p_game_id AND r.is_active),
+    COALESCE(
+      (
+        SELECT array_agg(r.id ORDER BY r.name)
+        FROM public.game_resources r
+        WHERE r.game_id = p_game_id
+          AND r.is_active
+          AND public.slot_closure_reason(p_game_id, r.id, p_date, s.slot) IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM public.bookings b
+            WHERE b.resource_id = r.id
+              AND b.booking_date = p_date
+              AND b.time_slot = s.slot
+              AND b.status IN ('pending', 'confirmed')
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM public.slot_holds h
+            WHERE h.resource_id = r.id
+              AND h.booking_date = p_date
+              AND h.time_slot = s.slot
+              AND h.expires_at > NOW()
+              AND h.user_id IS DISTINCT FROM auth.uid()
+          )
+      ),
+      '{}'
+    ),
+    CASE WHEN NOT EXISTS (
+      SELECT 1 FROM public.game_resources r
+      WHERE r.game_id = p_game_id
+        AND r.is_active
+        AND public.slot_closure_reason(p_game_id, r.id, p_date, s.slot) IS NULL
+    ) THEN (
+      SELECT public.slot_closure_reason(p_game_id, r.id, p_date, s.slot)
+      FROM public.game_resources r
+      WHERE r.game_id = p_game_id AND r.is_active
+      ORDER BY r.name
+      LIMIT 1
+    ) END
+  FROM public.game_time_slots(p_game_id, p_date) AS s(slot);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Bookings without a chosen court land on the member's held court, never on someone else's
+CREATE OR REPLACE FUNCTION public.assign_booking_resource()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.resource_id IS NULL THEN
+    SELECT r.id INTO NEW.resource_id
+    FROM public.game_resources r
+    WHERE r.game_id = NEW.game_id
+      AND r.is_active
+      AND public.slot_closure_reason(NEW.game_id, r.id, NEW.booking_date, NEW.time_slot) IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bookings b
+        WHERE b.resource_id = r.id
+          AND b.booking_date = NEW.booking_date
+          AND b.time_slot = NEW.time_slot
+          AND b.status IN ('pending', 'confirmed')
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.slot_holds h
+        WHERE h.resource_id = r.id
+          AND h.booking_date = NEW.booking_date
+          AND h.time_slot = NEW.time_slot
+          AND h.expires_at > NOW()
+          AND h.user_id <> NEW.user_id
+      )
+    ORDER BY EXISTS (
+      SELECT 1 FROM public.slot_holds h
+      WHERE h.resource_id = r.id
+        AND h.booking_date = NEW.booking_date
+        AND h.time_slot = NEW.time_slot
+        AND h.user_id = NEW.user_id
+    ) DESC, r.name
+    LIMIT 1;
+
+    IF NEW.resource_id IS NULL THEN
+      RAISE EXCEPTION 'No free resource for this slot' USING ERRCODE = '23505';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.game_resources r WHERE r.id = NEW.resource_id AND r.game_id = NEW.game_id
+  ) THEN
+    RAISE EXCEPTION 'Resource does not belong to this game' USING ERRCODE = '23503';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Booking the held slot uses up the hold
+CREATE OR REPLACE FUNCTION public.insert_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+  v_booking_id UUID;
+BEGIN
+  v_error := public.booking_slot_error(p_user_id, p_game_id, p_booking_date, p_time_slot);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(p_game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT NULL::uuid, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, game_id, resource_id, booking_date, time_slot, status, notes, series_id)
+  VALUES (p_user_id, p_game_id, p_resource_id, p_booking_date, p_time_slot, 'pending', p_notes, p_series_id)
+  RETURNING id INTO v_booking_id;
+
+  DELETE FROM public.slot_holds h
+  WHERE h.user_id = p_user_id
+    AND h.game_id = p_game_id
+    AND h.booking_date = p_booking_date
+    AND h.time_slot = p_time_slot;
+
+  RETURN QUERY SELECT v_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Holds the slot for the calling member for five minutes, on the chosen court or
+-- any free one. Calling again refreshes the hold or moves it to the new slot.
+CREATE OR REPLACE FUNCTION public.hold_slot(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (expires_at TIMESTAMP WITH TIME ZONE, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+  v_resource_id UUID;
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + interval '5 minutes';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN QUERY SELECT NULL::timestamptz, 'NOT_AUTHENTICATED'::text;
+    RETURN;
+  END IF;
+
+  v_error := public.booking_slot_error(auth.uid(), p_game_id, p_booking_date, p_time_slot);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::timestamptz, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(p_game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::timestamptz, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT NULL::timestamptz, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  -- Refreshing keeps the court already held rather than hopping to another
+  v_resource_id := COALESCE(
+    p_resource_id,
+    (
+      SELECT h.resource_id FROM public.slot_holds h
+      WHERE h.user_id = auth.uid()
+        AND h.booking_date = p_booking_date
+        AND h.time_slot = p_time_slot
+        AND h.resource_id = ANY(v_free_resource_ids)
+    ),
+    v_free_resource_ids[1]
+  );
+
+  -- A lapsed hold on this court would trip the unique index until the next sweep
+  DELETE FROM public.slot_holds h
+  WHERE h.resource_id = v_resource_id
+    AND h.booking_date = p_booking_date
+    AND h.time_slot = p_time_slot
+    AND h.expires_at <= NOW();
+
+  INSERT INTO public.slot_holds AS h (user_id, game_id, resource_id, booking_date, time_slot, expires_at)
+  VALUES (auth.uid(), p_game_id, v_resource_id, p_booking_date, p_time_slot, v_expires_at)
+  ON CONFLICT (user_id) DO UPDATE SET
+    game_id = EXCLUDED.game_id,
+    resource_id = EXCLUDED.resource_id,
+    booking_date = EXCLUDED.booking_date,
+    time_slot = EXCLUDED.time_slot,
+    expires_at = EXCLUDED.expires_at;
+
+  RETURN QUERY SELECT v_expires_at, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::timestamptz, CASE WHEN p_resource_id IS NULL THEN 'SLOT_FULL' ELSE 'RESOURCE_UNAVAILABLE' END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.release_slot_hold()
+RETURNS VOID AS $$
+  DELETE FROM public.slot_holds WHERE user_id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Other members see holds come and go like bookings, and a released hold goes
+-- to the waitlist just as a cancelled booking would
+CREATE OR REPLACE FUNCTION public.publish_slot_hold_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_moved BOOLEAN := TG_OP = 'UPDATE' AND (
+    NEW.game_id <> OLD.game_id
+    OR NEW.booking_date <> OLD.booking_date
+    OR NEW.time_slot <> OLD.time_slot
+    OR NEW.resource_id <> OLD.resource_id
+  );
+BEGIN
+  IF TG_OP = 'DELETE' OR v_moved THEN
+    INSERT INTO public.slot_changes (game_id, booking_date, time_slot)
+    VALUES (OLD.game_id, OLD.booking_date, OLD.time_slot);
+    PERFORM public.promote_waitlist(OLD.game_id, OLD.booking_date, OLD.time_slot);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR v_moved THEN
+    INSERT INTO public.slot_changes (game_id, booking_date, time_slot)
+    VALUES (NEW.game_id, NEW.booking_date, NEW.time_slot);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER publish_slot_hold_change AFTER INSERT OR UPDATE OR DELETE ON public.slot_holds FOR EACH ROW EXECUTE FUNCTION public.publish_slot_hold_change();
+
+SELECT cron.schedule('release-expired-slot-holds', '* * * * *', $$DELETE FROM public.slot_holds WHERE expires_at <= NOW()$$);
@@ -0,0 +1,3 @@
+-- Admins watch the booking queue live. Realtime applies the bookings RLS policies,
+-- so members only ever receive changes to their own bookings.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bookings;
@@ -0,0 +1,28 @@
+-- Admin booking search. Emails are also indexed in parts so "priya" finds
+-- priya.sharma@example.com.
+ALTER TABLE public.profiles ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector(
+    'simple'::regconfig,
+    COALESCE(name, '') || ' ' || COALESCE(email, '') || ' ' || regexp_replace(COALESCE(email, ''), '[@._+-]', ' ', 'g')
+  )
+) STORED;
+
+CREATE INDEX profiles_search_vector_idx ON public.profiles USING GIN (search_vector);
+
+-- Paging and filtering the admin bookings table
+CREATE INDEX bookings_created_at_idx ON public.bookings (created_at DESC);
+CREATE INDEX bookings_booking_date_idx ON public.bookings (booking_date, time_slot);
+CREATE INDEX bookings_status_idx ON public.bookings (status);
+CREATE INDEX bookings_game_id_idx ON public.bookings (game_id);
+
+-- Dashboard totals, now that the admin page only loads one page of bookings
+CREATE OR REPLACE FUNCTION public.admin_booking_stats()
+RETURNS TABLE (total_bookings INTEGER, pending_bookings INTEGER, confirmed_bookings INTEGER, total_revenue DECIMAL(10,2)) AS $$
+  SELECT
+    COUNT(*)::integer,
+    (COUNT(*) FILTER (WHERE status = 'pending'))::integer,
+    (COUNT(*) FILTER (WHERE status = 'confirmed'))::integer,
+    COALESCE(SUM(cost) FILTER (WHERE status = 'confirmed'), 0)
+  FROM public.bookings
+  WHERE public.is_admin();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
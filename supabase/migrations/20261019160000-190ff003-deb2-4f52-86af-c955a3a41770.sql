@@ -0,0 +1,57 @@
+-- Series changes run as their definer, so they check the caller owns the series
+-- before touching any occurrence. Someone else's series looks like a missing one.
+CREATE OR REPLACE FUNCTION public.cancel_booking_series(p_series_id UUID)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.booking_series
+    WHERE id = p_series_id AND (user_id = auth.uid() OR public.is_admin())
+  ) THEN
+    RETURN QUERY SELECT NULL::uuid, 'BOOKING_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.*
+  FROM public.bookings b
+  CROSS JOIN LATERAL public.cancel_booking(b.id) c
+  WHERE b.series_id = p_series_id
+    AND b.status IN ('pending', 'confirmed')
+    AND public.booking_starts_at(b.booking_date, b.time_slot) > NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The series keeps its old time unless at least one occurrence actually moved
+CREATE OR REPLACE FUNCTION public.reschedule_booking_series(p_series_id UUID, p_time_slot TIME)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_moved BOOLEAN := false;
+  v_result RECORD;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.booking_series
+    WHERE id = p_series_id AND (user_id = auth.uid() OR public.is_admin())
+  ) THEN
+    RETURN QUERY SELECT NULL::uuid, 'BOOKING_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  FOR v_result IN
+    SELECT r.*
+    FROM public.bookings b
+    CROSS JOIN LATERAL public.reschedule_booking(b.id, b.booking_date, p_time_slot) r
+    WHERE b.series_id = p_series_id
+      AND b.status IN ('pending', 'confirmed')
+      AND public.booking_starts_at(b.booking_date, b.time_slot) > NOW()
+  LOOP
+    v_moved := v_moved OR v_result.error_code IS NULL;
+    booking_id := v_result.booking_id;
+    error_code := v_result.error_code;
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_moved THEN
+    UPDATE public.booking_series SET time_slot = p_time_slot WHERE id = p_series_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,50 @@
+-- A promotion happens inside whoever freed the slot, so the booking history
+-- records it as a system event rather than as theirs, and the promoted member
+-- is told their slot came through.
+CREATE OR REPLACE FUNCTION public.promote_waitlist(p_game_id UUID, p_booking_date DATE, p_time_slot TIME)
+RETURNS VOID AS $$
+DECLARE
+  v_entry public.waitlist_entries;
+  v_result RECORD;
+  v_status booking_status;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM public.waitlist_entries
+    WHERE game_id = p_game_id
+      AND booking_date = p_booking_date
+      AND time_slot = p_time_slot
+      AND status = 'waiting'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_result
+    FROM public.insert_booking(v_entry.user_id, p_game_id, p_booking_date, p_time_slot);
+
+    IF v_result.error_code IS NULL THEN
+      UPDATE public.waitlist_entries SET status = 'promoted', booking_id = v_result.booking_id WHERE id = v_entry.id;
+
+      UPDATE public.booking_events
+      SET actor_id = NULL, note = CONCAT_WS('; ', 'Promoted from waitlist', note)
+      WHERE booking_id = v_result.booking_id;
+
+      SELECT status INTO v_status FROM public.bookings WHERE id = v_result.booking_id;
+
+      INSERT INTO public.notifications (user_id, booking_id, title, body)
+      SELECT
+        v_entry.user_id,
+        v_result.booking_id,
+        'Booked from waitlist',
+        g.name || ' on ' || TO_CHAR(p_booking_date, 'DD Mon YYYY') || ' at '
+          || TO_CHAR(p_time_slot, 'HH24:MI') || ' opened up and has been booked for you.'
+          || CASE WHEN v_status = 'pending' THEN ' It is waiting for admin approval.' ELSE '' END
+      FROM public.games g
+      WHERE g.id = p_game_id;
+      RETURN;
+    ELSIF v_result.error_code IN ('SLOT_FULL', 'RESOURCE_UNAVAILABLE') THEN
+      RETURN;
+    END IF;
+
+    UPDATE public.waitlist_entries SET status = 'expired' WHERE id = v_entry.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,55 @@
+-- Two requests from the same member could both pass the quota count before
+-- either booking is inserted, so a member's bookings are taken one at a time
+CREATE OR REPLACE FUNCTION public.insert_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+  v_booking_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text));
+
+  v_error := public.booking_slot_error(p_user_id, p_game_id, p_booking_date, p_time_slot);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(p_game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT NULL::uuid, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, game_id, resource_id, booking_date, time_slot, status, notes, series_id)
+  VALUES (p_user_id, p_game_id, p_resource_id, p_booking_date, p_time_slot, 'pending', p_notes, p_series_id)
+  RETURNING id INTO v_booking_id;
+
+  DELETE FROM public.slot_holds h
+  WHERE h.user_id = p_user_id
+    AND h.game_id = p_game_id
+    AND h.booking_date = p_booking_date
+    AND h.time_slot = p_time_slot;
+
+  RETURN QUERY SELECT v_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,60 @@
+-- Walk-ins are booked by admins at the desk, often minutes before play or for
+-- dates members can't book yet, so lead time and the booking window only apply
+-- to members. Admins still can't book a slot that has already started.
+CREATE OR REPLACE FUNCTION public.booking_slot_error(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_is_active BOOLEAN;
+  v_error TEXT;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN 'NOT_AUTHENTICATED';
+  END IF;
+
+  IF p_exclude_booking_id IS NULL AND NOT public.is_admin()
+    AND (SELECT standing FROM public.compute_member_standing(p_user_id)) = 'suspended'
+  THEN
+    RETURN 'MEMBER_SUSPENDED';
+  END IF;
+
+  SELECT is_active INTO v_is_active FROM public.games WHERE id = p_game_id;
+  IF NOT FOUND THEN
+    RETURN 'GAME_NOT_FOUND';
+  END IF;
+  IF NOT COALESCE(v_is_active, false) THEN
+    RETURN 'GAME_INACTIVE';
+  END IF;
+
+  IF p_time IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.game_time_slots(p_game_id, p_date) AS s(slot) WHERE s.slot = p_time
+  ) THEN
+    RETURN 'INVALID_SLOT';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.slot_availability(p_game_id, p_date) a
+    WHERE a.time_slot = p_time AND a.closure_reason IS NOT NULL
+  ) THEN
+    RETURN 'SLOT_CLOSED';
+  END IF;
+
+  IF public.is_admin() THEN
+    IF public.booking_starts_at(p_date, p_time) <= NOW() THEN
+      RETURN 'SLOT_IN_PAST';
+    END IF;
+  ELSE
+    v_error := public.booking_window_error(p_game_id, p_date, p_time);
+    IF v_error IS NOT NULL THEN
+      RETURN v_error;
+    END IF;
+  END IF;
+
+  RETURN public.booking_quota_error(p_user_id, p_game_id, p_date, p_time, p_exclude_booking_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
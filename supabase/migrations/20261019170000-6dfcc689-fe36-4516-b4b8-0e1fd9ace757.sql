@@ -0,0 +1,18 @@
+-- A game added from the dashboard starts with one resource and the default
+-- 09:00-21:00 hours every day, so it can be booked and shows in the calendar
+-- straight away. Admins adjust both from the game's settings.
+CREATE OR REPLACE FUNCTION public.set_up_new_game()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.game_resources (game_id, name)
+  VALUES (NEW.id, 'Main');
+
+  INSERT INTO public.game_operating_hours (game_id, weekday, opens_at, closes_at)
+  SELECT NEW.id, d.weekday, '09:00', '21:00'
+  FROM generate_series(0, 6) AS d(weekday);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_up_new_game AFTER INSERT ON public.games FOR EACH ROW EXECUTE FUNCTION public.set_up_new_game();
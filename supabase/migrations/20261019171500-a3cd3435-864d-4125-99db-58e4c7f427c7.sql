@@ -0,0 +1,323 @@
+-- Weekly series are meant to run past the booking window and quota: a
+-- ten-week league night would otherwise lose every week after the first few.
+-- A series only has to start inside the booking window, and all of its
+-- upcoming occurrences count as one active booking.
+
+-- The window is measured from p_window_date when given; the slot itself must
+-- still be in the future and past the lead time
+DROP FUNCTION public.booking_window_error(UUID, DATE, TIME);
+
+CREATE OR REPLACE FUNCTION public.booking_window_error(
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_window_date DATE DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_game RECORD;
+  v_local_now TIMESTAMP := NOW() AT TIME ZONE 'Asia/Kolkata';
+  v_last_date DATE;
+BEGIN
+  SELECT booking_window_days, booking_release_time, min_lead_minutes INTO v_game
+  FROM public.games WHERE id = p_game_id;
+
+  IF public.booking_starts_at(p_date, p_time) <= NOW() THEN
+    RETURN 'SLOT_IN_PAST';
+  END IF;
+
+  IF public.booking_starts_at(p_date, p_time) <= NOW() + make_interval(mins => v_game.min_lead_minutes) THEN
+    RETURN 'LEAD_TIME_NOT_MET';
+  END IF;
+
+  v_last_date := v_local_now::date + v_game.booking_window_days;
+  IF v_game.booking_release_time IS NOT NULL AND v_local_now::time < v_game.booking_release_time THEN
+    v_last_date := v_last_date - 1;
+  END IF;
+
+  IF COALESCE(p_window_date, p_date) > v_last_date THEN
+    RETURN 'OUTSIDE_BOOKING_WINDOW';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Upcoming bookings from one series count once, and the series being booked
+-- or changed (p_series_id) is left out of the count
+DROP FUNCTION public.booking_quota_usage(UUID, UUID, DATE, UUID);
+
+CREATE OR REPLACE FUNCTION public.booking_quota_usage(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_exclude_booking_id UUID DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  max_active_bookings INTEGER,
+  active_bookings INTEGER,
+  max_hours_per_week INTEGER,
+  week_minutes INTEGER,
+  max_bookings_per_day INTEGER,
+  day_bookings INTEGER
+) AS $$
+  WITH live AS (
+    SELECT b.id, b.series_id, b.booking_date, b.time_slot
+    FROM public.bookings b
+    WHERE b.user_id = p_user_id
+      AND b.game_id = p_game_id
+      AND b.status IN ('pending', 'confirmed')
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+  )
+  SELECT
+    q.max_active_bookings,
+    (SELECT COUNT(DISTINCT COALESCE(live.series_id, live.id))::int FROM live
+      WHERE public.booking_starts_at(live.booking_date, live.time_slot) > NOW()
+        AND (p_series_id IS NULL OR live.series_id IS DISTINCT FROM p_series_id)),
+    q.max_hours_per_week,
+    (SELECT COUNT(*)::int FROM live
+      WHERE date_trunc('week', live.booking_date) = date_trunc('week', p_date)) * g.slot_duration_minutes,
+    q.max_bookings_per_day,
+    (SELECT COUNT(*)::int FROM live WHERE live.booking_date = p_date)
+  FROM public.games g
+  JOIN public.profiles p ON p.id = p_user_id
+  LEFT JOIN public.booking_quotas q ON q.game_id = g.id AND q.role = p.role
+  WHERE g.id = p_game_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION public.booking_quota_error(UUID, UUID, DATE, TIME, UUID);
+
+CREATE OR REPLACE FUNCTION public.booking_quota_error(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_usage RECORD;
+  v_slot_minutes INTEGER;
+BEGIN
+  SELECT * INTO v_usage FROM public.booking_quota_usage(p_user_id, p_game_id, p_date, p_exclude_booking_id, p_series_id);
+  SELECT slot_duration_minutes INTO v_slot_minutes FROM public.games WHERE id = p_game_id;
+
+  IF v_usage.active_bookings >= v_usage.max_active_bookings THEN
+    RETURN 'QUOTA_EXCEEDED';
+  END IF;
+
+  IF v_usage.week_minutes + v_slot_minutes > v_usage.max_hours_per_week * 60 THEN
+    RETURN 'WEEKLY_HOURS_EXCEEDED';
+  END IF;
+
+  IF v_usage.day_bookings >= v_usage.max_bookings_per_day THEN
+    RETURN 'DAILY_LIMIT_EXCEEDED';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Series occurrences pass p_series_id once the series exists, or
+-- p_series_start while it is only being previewed
+DROP FUNCTION public.booking_slot_error(UUID, UUID, DATE, TIME, UUID);
+
+CREATE OR REPLACE FUNCTION public.booking_slot_error(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL,
+  p_series_start DATE DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_is_active BOOLEAN;
+  v_error TEXT;
+  v_series_start DATE := p_series_start;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN 'NOT_AUTHENTICATED';
+  END IF;
+
+  IF p_exclude_booking_id IS NULL AND NOT public.is_admin()
+    AND (SELECT standing FROM public.compute_member_standing(p_user_id)) = 'suspended'
+  THEN
+    RETURN 'MEMBER_SUSPENDED';
+  END IF;
+
+  SELECT is_active INTO v_is_active FROM public.games WHERE id = p_game_id;
+  IF NOT FOUND THEN
+    RETURN 'GAME_NOT_FOUND';
+  END IF;
+  IF NOT COALESCE(v_is_active, false) THEN
+    RETURN 'GAME_INACTIVE';
+  END IF;
+
+  IF p_time IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.game_time_slots(p_game_id, p_date) AS s(slot) WHERE s.slot = p_time
+  ) THEN
+    RETURN 'INVALID_SLOT';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.slot_availability(p_game_id, p_date) a
+    WHERE a.time_slot = p_time AND a.closure_reason IS NOT NULL
+  ) THEN
+    RETURN 'SLOT_CLOSED';
+  END IF;
+
+  IF v_series_start IS NULL AND p_series_id IS NOT NULL THEN
+    SELECT start_date INTO v_series_start FROM public.booking_series WHERE id = p_series_id;
+  END IF;
+
+  IF public.is_admin() THEN
+    IF public.booking_starts_at(p_date, p_time) <= NOW() THEN
+      RETURN 'SLOT_IN_PAST';
+    END IF;
+  ELSE
+    v_error := public.booking_window_error(p_game_id, p_date, p_time, v_series_start);
+    IF v_error IS NOT NULL THEN
+      RETURN v_error;
+    END IF;
+  END IF;
+
+  RETURN public.booking_quota_error(p_user_id, p_game_id, p_date, p_time, p_exclude_booking_id, p_series_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Series occurrences are checked against their series
+CREATE OR REPLACE FUNCTION public.insert_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+  v_booking_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text));
+
+  v_error := public.booking_slot_error(p_user_id, p_game_id, p_booking_date, p_time_slot, NULL, p_series_id);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(p_game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT NULL::uuid, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, game_id, resource_id, booking_date, time_slot, status, notes, series_id)
+  VALUES (p_user_id, p_game_id, p_resource_id, p_booking_date, p_time_slot, 'pending', p_notes, p_series_id)
+  RETURNING id INTO v_booking_id;
+
+  DELETE FROM public.slot_holds h
+  WHERE h.user_id = p_user_id
+    AND h.game_id = p_game_id
+    AND h.booking_date = p_booking_date
+    AND h.time_slot = p_time_slot;
+
+  RETURN QUERY SELECT v_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Checks every weekly occurrence without booking anything
+CREATE OR REPLACE FUNCTION public.preview_booking_series(
+  p_game_id UUID,
+  p_start_date DATE,
+  p_time_slot TIME,
+  p_occurrences INTEGER
+)
+RETURNS TABLE (booking_date DATE, error_code TEXT) AS $$
+  SELECT
+    d.occurrence_date,
+    COALESCE(
+      public.booking_slot_error(auth.uid(), p_game_id, d.occurrence_date, p_time_slot, NULL, NULL, p_start_date),
+      CASE WHEN COALESCE((
+        SELECT cardinality(a.free_resource_ids)
+        FROM public.slot_availability(p_game_id, d.occurrence_date) a
+        WHERE a.time_slot = p_time_slot
+      ), 0) = 0 THEN 'SLOT_FULL' END
+    )
+  FROM (
+    SELECT p_start_date + (i * 7) AS occurrence_date
+    FROM generate_series(0, LEAST(GREATEST(p_occurrences, 1), 12) - 1) AS i
+  ) d
+  ORDER BY d.occurrence_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A moved occurrence is still checked as part of its series
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking public.bookings;
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  v_error := COALESCE(
+    public.booking_change_error(v_booking),
+    public.booking_slot_error(v_booking.user_id, v_booking.game_id, p_booking_date, p_time_slot, p_booking_id, v_booking.series_id)
+  );
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT p_booking_id, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(v_booking.game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT p_booking_id, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT p_booking_id, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  -- A moved booking goes back to the approval queue for its new time
+  UPDATE public.bookings
+  SET booking_date = p_booking_date,
+      time_slot = p_time_slot,
+      resource_id = COALESCE(p_resource_id, v_free_resource_ids[1]),
+      status = 'pending'
+  WHERE id = p_booking_id;
+
+  RETURN QUERY SELECT p_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT p_booking_id, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,10 @@
+-- Bookings made before pricing rules keep whatever cost was typed in, recorded
+-- as an override where it differs from the computed price. Both columns are set
+-- together so price_booking never sees an override without a reason.
+UPDATE public.bookings
+SET quoted_price = public.compute_booking_price(game_id, booking_date, time_slot, user_id),
+    price_override_reason = CASE
+      WHEN cost <> public.compute_booking_price(game_id, booking_date, time_slot, user_id)
+      THEN 'Set manually before pricing rules'
+    END
+WHERE quoted_price IS NULL;
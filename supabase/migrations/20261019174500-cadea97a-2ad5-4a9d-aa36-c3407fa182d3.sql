@@ -0,0 +1,42 @@
+-- Members can book closer to the start than the pending cutoff (Badminton
+-- allows 60 minutes ahead, the cutoff is 2 hours) and would expire on the next
+-- sweep. A booking made after its cutoff stays pending until the slot starts,
+-- giving admins that long to review it.
+CREATE OR REPLACE FUNCTION public.expire_pending_bookings()
+RETURNS INTEGER AS $$
+DECLARE
+  v_booking RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_booking IN
+    UPDATE public.bookings b
+    SET status = 'expired'
+    FROM public.games g
+    WHERE g.id = b.game_id
+      AND b.status = 'pending'
+      AND (
+        b.created_at + make_interval(hours => g.pending_expiry_hours) <= NOW()
+        OR public.booking_starts_at(b.booking_date, b.time_slot)
+          - CASE
+              WHEN b.created_at < public.booking_starts_at(b.booking_date, b.time_slot) - make_interval(hours => g.pending_cutoff_hours)
+              THEN make_interval(hours => g.pending_cutoff_hours)
+              ELSE INTERVAL '0'
+            END
+          <= NOW()
+      )
+    RETURNING b.id, b.user_id, b.booking_date, b.time_slot, g.name AS game_name
+  LOOP
+    INSERT INTO public.notifications (user_id, booking_id, title, body)
+    VALUES (
+      v_booking.user_id,
+      v_booking.id,
+      'Booking expired',
+      v_booking.game_name || ' on ' || TO_CHAR(v_booking.booking_date, 'DD Mon YYYY') || ' at '
+        || TO_CHAR(v_booking.time_slot, 'HH24:MI') || ' was not approved in time and the slot has been released.'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,23 @@
+-- A game without a quota row has no limits at all, so games added after the
+-- quotas were seeded start with the same five upcoming bookings per member
+CREATE OR REPLACE FUNCTION public.set_up_new_game()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.game_resources (game_id, name)
+  VALUES (NEW.id, 'Main');
+
+  INSERT INTO public.game_operating_hours (game_id, weekday, opens_at, closes_at)
+  SELECT NEW.id, d.weekday, '09:00', '21:00'
+  FROM generate_series(0, 6) AS d(weekday);
+
+  INSERT INTO public.booking_quotas (game_id, role, max_active_bookings)
+  VALUES (NEW.id, 'user', 5);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+INSERT INTO public.booking_quotas (game_id, role, max_active_bookings)
+SELECT g.id, 'user', 5
+FROM public.games g
+WHERE NOT EXISTS (SELECT 1 FROM public.booking_quotas q WHERE q.game_id = g.id AND q.role = 'user');
@@ -0,0 +1,57 @@
+-- Moving a booking to another day or week is checked against the same quotas
+-- as a new booking, so it takes the same per-member lock as insert_booking
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_booking_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking public.bookings;
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF FOUND THEN
+    PERFORM pg_advisory_xact_lock(hashtext(v_booking.user_id::text));
+  END IF;
+
+  v_error := COALESCE(
+    public.booking_change_error(v_booking),
+    public.booking_slot_error(v_booking.user_id, v_booking.game_id, p_booking_date, p_time_slot, p_booking_id, v_booking.series_id)
+  );
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT p_booking_id, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(v_booking.game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT p_booking_id, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT p_booking_id, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  -- A moved booking goes back to the approval queue for its new time
+  UPDATE public.bookings
+  SET booking_date = p_booking_date,
+      time_slot = p_time_slot,
+      resource_id = COALESCE(p_resource_id, v_free_resource_ids[1]),
+      status = 'pending'
+  WHERE id = p_booking_id;
+
+  RETURN QUERY SELECT p_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT p_booking_id, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,165 @@
+-- Walk-ins are booked by admins at the desk, often minutes before play or for
+-- dates members can't book yet. Only create_walk_in_booking passes p_walk_in;
+-- anything else an admin does, including waitlist promotions it sets off,
+-- gets the member checks.
+DROP FUNCTION public.booking_slot_error(UUID, UUID, DATE, TIME, UUID, UUID, DATE);
+
+CREATE OR REPLACE FUNCTION public.booking_slot_error(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_date DATE,
+  p_time TIME,
+  p_exclude_booking_id UUID DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL,
+  p_series_start DATE DEFAULT NULL,
+  p_walk_in BOOLEAN DEFAULT false
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_is_active BOOLEAN;
+  v_error TEXT;
+  v_series_start DATE := p_series_start;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN 'NOT_AUTHENTICATED';
+  END IF;
+
+  IF p_exclude_booking_id IS NULL AND NOT p_walk_in
+    AND (SELECT standing FROM public.compute_member_standing(p_user_id)) = 'suspended'
+  THEN
+    RETURN 'MEMBER_SUSPENDED';
+  END IF;
+
+  SELECT is_active INTO v_is_active FROM public.games WHERE id = p_game_id;
+  IF NOT FOUND THEN
+    RETURN 'GAME_NOT_FOUND';
+  END IF;
+  IF NOT COALESCE(v_is_active, false) THEN
+    RETURN 'GAME_INACTIVE';
+  END IF;
+
+  IF p_time IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.game_time_slots(p_game_id, p_date) AS s(slot) WHERE s.slot = p_time
+  ) THEN
+    RETURN 'INVALID_SLOT';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.slot_availability(p_game_id, p_date) a
+    WHERE a.time_slot = p_time AND a.closure_reason IS NOT NULL
+  ) THEN
+    RETURN 'SLOT_CLOSED';
+  END IF;
+
+  IF v_series_start IS NULL AND p_series_id IS NOT NULL THEN
+    SELECT start_date INTO v_series_start FROM public.booking_series WHERE id = p_series_id;
+  END IF;
+
+  IF p_walk_in THEN
+    IF public.booking_starts_at(p_date, p_time) <= NOW() THEN
+      RETURN 'SLOT_IN_PAST';
+    END IF;
+  ELSE
+    v_error := public.booking_window_error(p_game_id, p_date, p_time, v_series_start);
+    IF v_error IS NOT NULL THEN
+      RETURN v_error;
+    END IF;
+  END IF;
+
+  RETURN public.booking_quota_error(p_user_id, p_game_id, p_date, p_time, p_exclude_booking_id, p_series_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION public.insert_booking(UUID, UUID, DATE, TIME, UUID, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.insert_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL,
+  p_walk_in BOOLEAN DEFAULT false
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+  v_booking_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text));
+
+  v_error := public.booking_slot_error(p_user_id, p_game_id, p_booking_date, p_time_slot, NULL, p_series_id, NULL, p_walk_in);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, v_error;
+    RETURN;
+  END IF;
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(p_game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT NULL::uuid, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, game_id, resource_id, booking_date, time_slot, status, notes, series_id)
+  VALUES (p_user_id, p_game_id, p_resource_id, p_booking_date, p_time_slot, 'pending', p_notes, p_series_id)
+  RETURNING id INTO v_booking_id;
+
+  DELETE FROM public.slot_holds h
+  WHERE h.user_id = p_user_id
+    AND h.game_id = p_game_id
+    AND h.booking_date = p_booking_date
+    AND h.time_slot = p_time_slot;
+
+  RETURN QUERY SELECT v_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.insert_booking(UUID, UUID, DATE, TIME, UUID, TEXT, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Walk-ins skip lead time, the booking window and the suspension check, but not
+-- the quotas or a slot that has already started
+CREATE OR REPLACE FUNCTION public.create_walk_in_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_result RECORD;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RETURN QUERY SELECT NULL::uuid, 'NOT_AUTHORIZED'::text;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RETURN QUERY SELECT NULL::uuid, 'MEMBER_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_result
+  FROM public.insert_booking(p_user_id, p_game_id, p_booking_date, p_time_slot, p_resource_id, p_notes, NULL, true);
+
+  IF v_result.error_code IS NULL THEN
+    UPDATE public.bookings SET status = 'confirmed' WHERE id = v_result.booking_id;
+  END IF;
+
+  RETURN QUERY SELECT v_result.booking_id, v_result.error_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
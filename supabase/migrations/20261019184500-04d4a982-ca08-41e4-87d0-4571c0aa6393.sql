@@ -0,0 +1,53 @@
+-- A correctly signed code can outlive its booking; report that instead of a check-in
+CREATE OR REPLACE FUNCTION public.check_in_booking(p_token TEXT)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking_id UUID;
+  v_booking public.bookings;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RETURN QUERY SELECT NULL::uuid, 'NOT_AUTHORIZED'::text;
+    RETURN;
+  END IF;
+
+  BEGIN
+    v_booking_id := split_part(TRIM(p_token), '.', 1)::uuid;
+  EXCEPTION
+    WHEN invalid_text_representation THEN
+      v_booking_id := NULL;
+  END;
+
+  IF v_booking_id IS NULL OR public.sign_booking_token(v_booking_id) <> TRIM(p_token) THEN
+    RETURN QUERY SELECT NULL::uuid, 'INVALID_CHECK_IN_CODE'::text;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = v_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT v_booking_id, 'BOOKING_NOT_FOUND'::text;
+    RETURN;
+  END IF;
+
+  IF v_booking.checked_in_at IS NOT NULL THEN
+    RETURN QUERY SELECT v_booking_id, 'ALREADY_CHECKED_IN'::text;
+    RETURN;
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RETURN QUERY SELECT v_booking_id, 'BOOKING_NOT_CONFIRMED'::text;
+    RETURN;
+  END IF;
+
+  IF v_booking.booking_date <> (NOW() AT TIME ZONE 'Asia/Kolkata')::date THEN
+    RETURN QUERY SELECT v_booking_id, 'NOT_BOOKING_DAY'::text;
+    RETURN;
+  END IF;
+
+  UPDATE public.bookings
+  SET checked_in_at = NOW(), checked_in_by = auth.uid()
+  WHERE id = v_booking_id;
+
+  RETURN QUERY SELECT v_booking_id, NULL::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
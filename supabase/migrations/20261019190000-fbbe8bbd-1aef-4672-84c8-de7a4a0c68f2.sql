@@ -0,0 +1,162 @@
+-- A hold that lapses before the sweep frees its court without a release, so
+-- nothing promotes the waitlist. Whoever reaches the slot next hands it to the
+-- waitlist first and only gets it if no one waiting can take it.
+CREATE OR REPLACE FUNCTION public.promote_waitlist_ahead_of(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME
+)
+RETURNS VOID AS $$
+BEGIN
+  IF (
+    SELECT w.user_id FROM public.waitlist_entries w
+    WHERE w.game_id = p_game_id
+      AND w.booking_date = p_booking_date
+      AND w.time_slot = p_time_slot
+      AND w.status = 'waiting'
+    ORDER BY w.created_at
+    LIMIT 1
+  ) <> p_user_id THEN
+    PERFORM public.promote_waitlist(p_game_id, p_booking_date, p_time_slot);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.promote_waitlist_ahead_of(UUID, UUID, DATE, TIME) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.insert_booking(
+  p_user_id UUID,
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_series_id UUID DEFAULT NULL,
+  p_walk_in BOOLEAN DEFAULT false
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+  v_booking_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text));
+
+  v_error := public.booking_slot_error(p_user_id, p_game_id, p_booking_date, p_time_slot, NULL, p_series_id, NULL, p_walk_in);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, v_error;
+    RETURN;
+  END IF;
+
+  PERFORM public.promote_waitlist_ahead_of(p_user_id, p_game_id, p_booking_date, p_time_slot);
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(p_game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT NULL::uuid, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, game_id, resource_id, booking_date, time_slot, status, notes, series_id)
+  VALUES (p_user_id, p_game_id, p_resource_id, p_booking_date, p_time_slot, 'pending', p_notes, p_series_id)
+  RETURNING id INTO v_booking_id;
+
+  DELETE FROM public.slot_holds h
+  WHERE h.user_id = p_user_id
+    AND h.game_id = p_game_id
+    AND h.booking_date = p_booking_date
+    AND h.time_slot = p_time_slot;
+
+  RETURN QUERY SELECT v_booking_id, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::uuid, 'SLOT_FULL'::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.insert_booking(UUID, UUID, DATE, TIME, UUID, TEXT, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Holding a slot can't jump the waitlist either
+CREATE OR REPLACE FUNCTION public.hold_slot(
+  p_game_id UUID,
+  p_booking_date DATE,
+  p_time_slot TIME,
+  p_resource_id UUID DEFAULT NULL
+)
+RETURNS TABLE (expires_at TIMESTAMP WITH TIME ZONE, error_code TEXT) AS $$
+DECLARE
+  v_error TEXT;
+  v_free_resource_ids UUID[];
+  v_resource_id UUID;
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + interval '5 minutes';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN QUERY SELECT NULL::timestamptz, 'NOT_AUTHENTICATED'::text;
+    RETURN;
+  END IF;
+
+  v_error := public.booking_slot_error(auth.uid(), p_game_id, p_booking_date, p_time_slot);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::timestamptz, v_error;
+    RETURN;
+  END IF;
+
+  PERFORM public.promote_waitlist_ahead_of(auth.uid(), p_game_id, p_booking_date, p_time_slot);
+
+  SELECT a.free_resource_ids INTO v_free_resource_ids
+  FROM public.slot_availability(p_game_id, p_booking_date) a
+  WHERE a.time_slot = p_time_slot;
+
+  IF COALESCE(cardinality(v_free_resource_ids), 0) = 0 THEN
+    RETURN QUERY SELECT NULL::timestamptz, 'SLOT_FULL'::text;
+    RETURN;
+  END IF;
+
+  IF p_resource_id IS NOT NULL AND NOT (p_resource_id = ANY(v_free_resource_ids)) THEN
+    RETURN QUERY SELECT NULL::timestamptz, 'RESOURCE_UNAVAILABLE'::text;
+    RETURN;
+  END IF;
+
+  -- Refreshing keeps the court already held rather than hopping to another
+  v_resource_id := COALESCE(
+    p_resource_id,
+    (
+      SELECT h.resource_id FROM public.slot_holds h
+      WHERE h.user_id = auth.uid()
+        AND h.booking_date = p_booking_date
+        AND h.time_slot = p_time_slot
+        AND h.resource_id = ANY(v_free_resource_ids)
+    ),
+    v_free_resource_ids[1]
+  );
+
+  -- A lapsed hold on this court would trip the unique index until the next sweep
+  DELETE FROM public.slot_holds h
+  WHERE h.resource_id = v_resource_id
+    AND h.booking_date = p_booking_date
+    AND h.time_slot = p_time_slot
+    AND h.expires_at <= NOW();
+
+  INSERT INTO public.slot_holds AS h (user_id, game_id, resource_id, booking_date, time_slot, expires_at)
+  VALUES (auth.uid(), p_game_id, v_resource_id, p_booking_date, p_time_slot, v_expires_at)
+  ON CONFLICT (user_id) DO UPDATE SET
+    game_id = EXCLUDED.game_id,
+    resource_id = EXCLUDED.resource_id,
+    booking_date = EXCLUDED.booking_date,
+    time_slot = EXCLUDED.time_slot,
+    expires_at = EXCLUDED.expires_at;
+
+  RETURN QUERY SELECT v_expires_at, NULL::text;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN QUERY SELECT NULL::timestamptz, CASE WHEN p_resource_id IS NULL THEN 'SLOT_FULL' ELSE 'RESOURCE_UNAVAILABLE' END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,69 @@
+-- A booking that hasn't started yet can't be a no-show
+CREATE OR REPLACE FUNCTION public.bulk_update_bookings(
+  p_booking_ids UUID[],
+  p_action TEXT,
+  p_cost DECIMAL(10,2) DEFAULT NULL,
+  p_override_reason TEXT DEFAULT NULL
+)
+RETURNS TABLE (booking_id UUID, error_code TEXT) AS $$
+DECLARE
+  v_booking_id UUID;
+  v_booking public.bookings;
+  v_error TEXT;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RETURN QUERY SELECT NULL::uuid, 'NOT_AUTHORIZED'::text;
+    RETURN;
+  END IF;
+
+  IF p_action IS NULL
+    OR p_action NOT IN ('confirm', 'cancel', 'no-show', 'set-price')
+    OR (p_action = 'set-price' AND (p_cost IS NULL OR p_cost < 0))
+  THEN
+    RETURN QUERY SELECT NULL::uuid, 'INVALID_BULK_ACTION'::text;
+    RETURN;
+  END IF;
+
+  FOR v_booking_id IN SELECT DISTINCT unnest(p_booking_ids) LOOP
+    SELECT * INTO v_booking FROM public.bookings b WHERE b.id = v_booking_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT v_booking_id, 'BOOKING_NOT_FOUND'::text;
+      CONTINUE;
+    END IF;
+
+    v_error := CASE
+      WHEN p_action = 'confirm' AND v_booking.status <> 'pending' THEN 'BOOKING_NOT_PENDING'
+      WHEN p_action IN ('cancel', 'set-price') AND v_booking.status NOT IN ('pending', 'confirmed') THEN 'BOOKING_NOT_CHANGEABLE'
+      WHEN p_action = 'no-show' AND v_booking.status <> 'confirmed' THEN 'BOOKING_NOT_CONFIRMED'
+      WHEN p_action = 'no-show' AND v_booking.checked_in_at IS NOT NULL THEN 'ALREADY_CHECKED_IN'
+      WHEN p_action = 'no-show'
+        AND public.booking_starts_at(v_booking.booking_date, v_booking.time_slot) > NOW() THEN 'BOOKING_NOT_STARTED'
+      WHEN p_action = 'set-price' AND p_cost <> v_booking.quoted_price
+        AND NULLIF(TRIM(p_override_reason), '') IS NULL THEN 'OVERRIDE_REASON_REQUIRED'
+    END;
+
+    IF v_error IS NOT NULL THEN
+      RETURN QUERY SELECT v_booking_id, v_error;
+      CONTINUE;
+    END IF;
+
+    IF p_action = 'set-price' THEN
+      UPDATE public.bookings b
+      SET cost = p_cost,
+          price_override_reason = CASE WHEN p_cost <> b.quoted_price THEN TRIM(p_override_reason) END
+      WHERE b.id = v_booking_id;
+    ELSE
+      UPDATE public.bookings b
+      SET status = CASE p_action
+        WHEN 'confirm' THEN 'confirmed'::booking_status
+        WHEN 'cancel' THEN 'canceled'::booking_status
+        ELSE 'no-show'::booking_status
+      END
+      WHERE b.id = v_booking_id;
+    END IF;
+
+    RETURN QUERY SELECT v_booking_id, NULL::text;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,52 @@
+-- Weekly series run past the booking window and count once against quotas.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('8d2f4a17-6c3e-4b9a-a0d5-3e7f1c2b9d40', 'league@example.com', '{"name": "League Captain"}');
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "8d2f4a17-6c3e-4b9a-a0d5-3e7f1c2b9d40", "role": "authenticated"}';
+
+-- Badminton is seeded with a 14-day window and at most 3 active bookings
+SELECT is(
+  (SELECT COUNT(*)::int FROM public.create_booking_series(
+    (SELECT id FROM public.games WHERE name = 'Badminton'),
+    (NOW() AT TIME ZONE 'Asia/Kolkata')::date + 7,
+    '18:00',
+    10
+  ) WHERE error_code IS NULL),
+  10,
+  'every week of a 10-week badminton series is booked'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::int FROM public.bookings WHERE user_id = auth.uid() AND series_id IS NOT NULL),
+  10,
+  'the series holds ten bookings'
+);
+
+SELECT is(
+  (SELECT active_bookings FROM public.my_booking_quota(
+    (SELECT id FROM public.games WHERE name = 'Badminton'),
+    (NOW() AT TIME ZONE 'Asia/Kolkata')::date + 8
+  )),
+  1,
+  'the series counts as one active booking'
+);
+
+SELECT results_eq(
+  $$ SELECT error_code FROM public.create_booking(
+    (SELECT id FROM public.games WHERE name = 'Badminton'),
+    (NOW() AT TIME ZONE 'Asia/Kolkata')::date + 8,
+    '12:00'
+  ) $$,
+  $$ VALUES (NULL::text) $$,
+  'the member can still make a one-off booking'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,72 @@
+-- What a signed-in member can and can't change directly through the API.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('5b0c1e62-3f4a-4d2b-9a51-0d6f2c7e8a11', 'member@example.com', '{"name": "Test Member"}');
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims = '{"sub": "5b0c1e62-3f4a-4d2b-9a51-0d6f2c7e8a11", "role": "authenticated"}';
+
+SELECT results_eq(
+  $$ SELECT error_code FROM public.create_booking(
+    (SELECT id FROM public.games WHERE name = 'Badminton'),
+    (NOW() AT TIME ZONE 'Asia/Kolkata')::date + 3,
+    '12:00'
+  ) $$,
+  $$ VALUES (NULL::text) $$,
+  'the member can book a slot'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.profiles SET role = 'admin' WHERE id = auth.uid() $$,
+  '42501',
+  NULL,
+  'a member cannot make themselves admin'
+);
+
+SELECT is(
+  (SELECT role::text FROM public.profiles WHERE id = auth.uid()),
+  'user',
+  'the member is still a plain user'
+);
+
+SELECT is_empty(
+  $$ UPDATE public.bookings SET status = 'confirmed', cost = 0 WHERE user_id = auth.uid() RETURNING id $$,
+  'a member cannot confirm or reprice their own booking'
+);
+
+SELECT results_eq(
+  $$ SELECT status::text, cost = quoted_price FROM public.bookings WHERE user_id = auth.uid() $$,
+  $$ VALUES ('pending', true) $$,
+  'the booking is still pending at its quoted price'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.profiles SET name = 'Renamed Member' WHERE id = auth.uid() $$,
+  'a member can edit their own name'
+);
+
+SELECT is(
+  (SELECT name FROM public.profiles WHERE id = auth.uid()),
+  'Renamed Member',
+  'the new name is saved'
+);
+
+SELECT is(
+  (SELECT c.error_code FROM public.bookings b CROSS JOIN LATERAL public.cancel_booking(b.id) c WHERE b.user_id = auth.uid()),
+  NULL,
+  'a member can cancel their own booking through cancel_booking'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.bookings WHERE user_id = auth.uid()),
+  'canceled',
+  'the booking is canceled'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
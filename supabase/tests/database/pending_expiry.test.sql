@@ -0,0 +1,44 @@
+-- Which unapproved bookings the expiry sweep releases.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(2);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('2c6e9b30-7d14-4f8a-b5e2-91a0c4d3f658', 'late@example.com', '{"name": "Late Booker"}');
+
+-- Badminton has a 2-hour pending cutoff and no auto-approval rule; one booking
+-- is made an hour before it starts, the other well before its cutoff
+INSERT INTO public.bookings (user_id, game_id, booking_date, time_slot, status, notes, created_at)
+SELECT
+  '2c6e9b30-7d14-4f8a-b5e2-91a0c4d3f658',
+  g.id,
+  (b.starts_at AT TIME ZONE 'Asia/Kolkata')::date,
+  (b.starts_at AT TIME ZONE 'Asia/Kolkata')::time,
+  'pending',
+  b.notes,
+  b.created_at
+FROM public.games g
+CROSS JOIN (VALUES
+  ('made 60 minutes ahead', NOW() + INTERVAL '60 minutes', NOW()),
+  ('made a day ahead', NOW() + INTERVAL '90 minutes', NOW() - INTERVAL '22 hours')
+) AS b(notes, starts_at, created_at)
+WHERE g.name = 'Badminton';
+
+SELECT public.expire_pending_bookings();
+
+SELECT is(
+  (SELECT status::text FROM public.bookings WHERE notes = 'made 60 minutes ahead'),
+  'pending',
+  'a booking made inside the cutoff stays pending until it starts'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.bookings WHERE notes = 'made a day ahead'),
+  'expired',
+  'a booking still unapproved at its cutoff expires'
+);
+
+SELECT * FROM finish();
+ROLLBACK;